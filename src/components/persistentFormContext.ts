@@ -0,0 +1,6 @@
+import type { InjectionKey } from "vue";
+import type { UseFormPersistenceReturn } from "../types/useFormPersistenceType";
+
+// PersistentForm向子组件提供的表单持久化实例
+export const PERSISTENT_FORM_KEY: InjectionKey<UseFormPersistenceReturn<any>> =
+  Symbol("PersistentForm");
@@ -0,0 +1,2412 @@
+import type {
+  StoredFile,
+  UseFormPersistenceOptions,
+  UploadProgress,
+  ErrorLevel,
+  DataTransformMiddleware,
+  FieldTransformConfig,
+  FileSaveMode,
+  SensitiveFieldMode,
+  PendingDraft,
+  DraftFileSummary,
+  SubmitHandler,
+} from "../types/useFormPersistenceType";
+import type {
+  ConflictResolution,
+  FieldConflict,
+  ServerBaseline,
+} from "../types/baselineType";
+import type {
+  CrossTabSyncOptions,
+  TabSyncMessage,
+  TabSyncPolicy,
+} from "../types/tabSyncType";
+import { createDefaultStorageAdapter } from "../storage/storageAdapters";
+import {
+  DEFAULT_DATA_EXPIRY_MS,
+  getDraftKeys,
+  isDraftExpired,
+  STORAGE_PREFIX,
+} from "../storage/drafts";
+import { sweepExpiredDrafts as sweepStoredDrafts } from "../storage/sweep";
+import {
+  estimateStorage,
+  evictDrafts,
+  requestPersistentStorage,
+} from "../storage/quota";
+import {
+  createEncryptedStorageAdapter,
+  isEncryptedText,
+} from "../storage/encryptedStorageAdapter";
+import {
+  DecryptionError,
+  DraftImportError,
+  isQuotaExceededError,
+  SchemaVersionError,
+  StorageQuotaError,
+} from "../errors/formPersistenceErrors";
+import {
+  createEnvelope,
+  migrateEnvelope,
+  parseEnvelope,
+} from "../utils/payloadEnvelope";
+import type { PayloadEnvelope } from "../types/payloadEnvelopeType";
+import type { EvictionPolicy } from "../types/quotaType";
+import type { StorageScope } from "../types/storageAdapterType";
+import type { SweepResult } from "../types/sweepType";
+import type { DraftSnapshot } from "../types/draftHistoryType";
+import type { TypeCodec } from "../types/typeCodecType";
+import type { FormPersistenceEvents } from "../types/formPersistenceEventType";
+import type {
+  FormPersistence,
+  FormPersistenceListener,
+  FormPersistenceState,
+} from "../types/formPersistenceType";
+import { createTabSyncChannel, type TabSyncChannel } from "../sync/tabSync";
+import { RemoteSync } from "../sync/remoteSync";
+import { DraftHistory } from "../history/draftHistory";
+import { createId } from "../utils/createId";
+import { EventEmitter } from "../utils/eventEmitter";
+import { isBrowser } from "../utils/environment";
+import { threeWayMerge } from "../utils/threeWayMerge";
+import { toFile } from "../utils/toFile";
+import {
+  createDraftArchive,
+  decodeArchiveFile,
+  parseDraftArchive,
+} from "../utils/draftArchive";
+import { cloneDeep, isDeepEqual } from "../utils/deepValue";
+import {
+  BUILTIN_TYPE_CODECS,
+  decodeTypedValue,
+  encodeTypedValue,
+} from "../utils/typeCodec";
+import {
+  getPath,
+  hasPath,
+  findMatchingPaths,
+  isPathSelected,
+  omitPath,
+  setPath,
+} from "../utils/fieldPaths";
+// 只使用Vue的响应式系统（不依赖组件生命周期），可以在任何框架或普通页面中运行
+import {
+  ref,
+  shallowRef,
+  computed,
+  reactive,
+  watch,
+  effectScope,
+  type EffectScope,
+  type Reactive,
+  type WatchStopHandle,
+} from "vue";
+
+// 默认配置常量
+const DEFAULT_ERROR_LEVEL: ErrorLevel = "basic"; // 默认基本错误级别
+const DEFAULT_AUTO_SAVE = true; // 默认启用自动保存
+const DEFAULT_AUTO_SAVE_INTERVAL = 300; // 默认自动保存间隔300ms
+const TAB_LOCK_QUERY_TIMEOUT = 100; // 查询编辑锁的等待时间100ms
+const DEFAULT_HISTORY_LIMIT = 20; // 默认保留20条草稿历史
+const DEFAULT_EVICTION_POLICY: EvictionPolicy = "expired"; // 默认只淘汰其他表单的过期草稿
+const SENSITIVE_MASK = "******"; // 敏感字段掩码
+
+// 错误处理函数
+const handleError = (
+  error: Error,
+  context: string,
+  errorLevel: ErrorLevel,
+  onError?: (error: Error, context: string) => void
+): string => {
+  const errorMessage = `${context}: ${error.message}`;
+
+  // 根据错误级别处理
+  if (errorLevel === "detailed") {
+    console.error(errorMessage, error);
+  } else if (errorLevel === "basic") {
+    console.warn(errorMessage);
+  }
+
+  // 调用用户提供的错误回调
+  if (onError) {
+    onError(error, context);
+  }
+
+  return errorMessage;
+};
+
+// 创建表单持久化实例（与框架无关，由调用方通过start/stop控制生命周期）
+export function createFormPersistence<T extends object>(
+  formId: string,
+  initialFormData: T,
+  options: UseFormPersistenceOptions<NoInfer<T>>
+): FormPersistence<T> {
+  // 合并默认选项
+  const {
+    fileFields,
+    clearOnClose = false,
+    dataExpiryMs = DEFAULT_DATA_EXPIRY_MS,
+    errorLevel = DEFAULT_ERROR_LEVEL,
+    onError,
+    transformMiddleware = {},
+    fieldTransforms = {},
+    autoSave = DEFAULT_AUTO_SAVE,
+    autoSaveInterval = DEFAULT_AUTO_SAVE_INTERVAL,
+    keyPrefix = STORAGE_PREFIX,
+    dbName,
+    storageAdapter: baseStorageAdapter = createDefaultStorageAdapter({
+      dbName,
+    }),
+    crossTabSync = false,
+    history: historyOption = false,
+    encryption,
+    schemaVersion,
+    migrations = {},
+    unknownVersionPolicy = "discard",
+    quota: quotaOptions = {},
+    autoSweep = false,
+    onSweep,
+    restoreMode = "auto",
+    baseline: baselineOption,
+    remoteSync: remoteSyncOptions,
+    include,
+    exclude = [],
+    sensitive = [],
+    sensitiveMode = "session",
+    typeCodec = true,
+    onSave,
+    onRestore,
+    onCrashDetected,
+    onExpire,
+    onFilesSaved,
+    onClear,
+  } = options;
+
+  // 当前数据结构版本，未指定时取迁移表中的最高版本
+  const currentSchemaVersion =
+    schemaVersion ?? Math.max(0, ...Object.keys(migrations).map(Number));
+
+  // 配置了加密时，所有读写都经过加密适配器
+  const storageAdapter = encryption
+    ? createEncryptedStorageAdapter(baseStorageAdapter, encryption)
+    : baseStorageAdapter;
+
+  // 生命周期事件，选项中的回调作为第一个监听函数
+  const events = new EventEmitter<FormPersistenceEvents<T>>((err, event) =>
+    handleError(
+      err instanceof Error ? err : new Error(String(err)),
+      `事件监听[${String(event)}]`,
+      errorLevel,
+      onError
+    )
+  );
+  if (onSave) events.on("save", onSave);
+  if (onRestore) events.on("restore", onRestore);
+  if (onCrashDetected) events.on("crashDetected", onCrashDetected);
+  if (onExpire) events.on("expire", onExpire);
+  if (onFilesSaved) events.on("filesSaved", onFilesSaved);
+  if (onClear) events.on("clear", onClear);
+
+  // 存储中间件的响应式引用
+  const currentMiddleware = ref<DataTransformMiddleware>({
+    ...transformMiddleware,
+  });
+  // 存储字段级转换配置的响应式引用
+  const currentFieldTransforms = reactive<FieldTransformConfig>({
+    ...fieldTransforms,
+  });
+  // 字段级转换的保存前应用顺序：路径段数多的在前，段数相同按注册顺序（sort为稳定排序）
+  const sortFieldTransformPatterns = (): string[] =>
+    Object.keys(currentFieldTransforms).sort(
+      (a, b) => b.split(".").length - a.split(".").length
+    );
+  let fieldTransformPatterns = sortFieldTransformPatterns();
+
+  // 类型编解码器：自定义编解码器优先，关闭typeCodec时只使用注册的编解码器
+  const typeCodecs: TypeCodec[] = typeCodec
+    ? [
+        ...((typeCodec !== true && typeCodec.codecs) || []),
+        ...BUILTIN_TYPE_CODECS,
+      ]
+    : [];
+
+  // 类型编码在保存前转换之后执行，解码在恢复后转换之前执行，转换函数始终面对原始类型
+  const encodeData = (data: any): any =>
+    typeCodecs.length ? encodeTypedValue(data, typeCodecs) : data;
+  const decodeData = (data: any): any =>
+    typeCodecs.length ? decodeTypedValue(data, typeCodecs) : data;
+
+  // 应用字段级转换：按模式查找匹配的路径逐一转换，恢复后按保存前的相反顺序应用
+  const applyFieldTransforms = (
+    data: Record<string, any>,
+    stage: keyof DataTransformMiddleware
+  ): Record<string, any> => {
+    const patterns =
+      stage === "beforeSave"
+        ? fieldTransformPatterns
+        : [...fieldTransformPatterns].reverse();
+    const stageName = stage === "beforeSave" ? "保存前" : "恢复后";
+
+    return patterns.reduce((transformedData, pattern) => {
+      const transform = currentFieldTransforms[pattern]?.[stage];
+      if (!transform) return transformedData;
+
+      return findMatchingPaths(transformedData, pattern).reduce(
+        (result, path) => {
+          try {
+            return setPath(result, path, transform(getPath(result, path)));
+          } catch (error) {
+            handleError(
+              error instanceof Error ? error : new Error(String(error)),
+              `字段[${path}]${stageName}转换失败`,
+              errorLevel,
+              onError
+            );
+            return result;
+          }
+        },
+        transformedData
+      );
+    }, data);
+  };
+
+  // 应用保存前的数据转换
+  const applyBeforeSaveTransform = (data: any): any => {
+    let transformedData = { ...data };
+
+    // 先应用字段级别的转换
+    transformedData = applyFieldTransforms(transformedData, "beforeSave");
+
+    // 再应用全局中间件的转换
+    if (currentMiddleware.value.beforeSave) {
+      try {
+        transformedData = currentMiddleware.value.beforeSave(transformedData);
+      } catch (error) {
+        handleError(
+          error instanceof Error ? error : new Error(String(error)),
+          "全局保存前转换失败",
+          errorLevel,
+          onError
+        );
+      }
+    }
+
+    return transformedData;
+  };
+
+  // 应用恢复后的数据转换
+  const applyAfterRestoreTransform = (data: any): any => {
+    let transformedData = { ...data };
+
+    // 先应用全局中间件的转换
+    if (currentMiddleware.value.afterRestore) {
+      try {
+        transformedData = currentMiddleware.value.afterRestore(transformedData);
+      } catch (error) {
+        handleError(
+          error instanceof Error ? error : new Error(String(error)),
+          "全局恢复后转换失败",
+          errorLevel,
+          onError
+        );
+      }
+    }
+
+    // 再应用字段级别的转换
+    transformedData = applyFieldTransforms(transformedData, "afterRestore");
+
+    return transformedData;
+  };
+
+  // 注册全局转换中间件
+  const registerTransformMiddleware = (
+    middleware: DataTransformMiddleware
+  ): void => {
+    currentMiddleware.value = { ...currentMiddleware.value, ...middleware };
+  };
+
+  // 注册字段级转换配置
+  const registerFieldTransforms = (
+    fieldTransforms: FieldTransformConfig<T>
+  ): void => {
+    Object.assign(currentFieldTransforms, fieldTransforms);
+    fieldTransformPatterns = sortFieldTransformPatterns();
+  };
+
+  // 注册类型编解码器，同名编解码器会被替换
+  const registerTypeCodec = (codec: TypeCodec): void => {
+    const index = typeCodecs.findIndex((item) => item.name === codec.name);
+    if (index !== -1) {
+      typeCodecs.splice(index, 1);
+    }
+    typeCodecs.unshift(codec);
+  };
+
+  // 按include/exclude过滤出允许持久化的字段
+  const filterPersistedFields = (
+    data: Record<string, any>
+  ): Record<string, any> => {
+    const includedData = include
+      ? include.reduce<Record<string, any>>(
+          (acc, path) =>
+            hasPath(data, path) ? setPath(acc, path, getPath(data, path)) : acc,
+          {}
+        )
+      : { ...data };
+    return exclude.reduce(omitPath, includedData);
+  };
+
+  // 处理敏感字段：mask替换为掩码，session从数据中移除
+  const protectSensitiveFields = (
+    data: Record<string, any>,
+    mode: SensitiveFieldMode
+  ): Record<string, any> =>
+    sensitive.reduce(
+      (acc, path) =>
+        !hasPath(acc, path)
+          ? acc
+          : mode === "mask"
+          ? setPath(acc, path, SENSITIVE_MASK)
+          : omitPath(acc, path),
+      data
+    );
+
+  // 合并恢复的数据：未持久化的字段保持当前值，避免被旧草稿中的值或掩码覆盖
+  const mergeRestoredData = (
+    data: Record<string, any>,
+    withSensitive: boolean
+  ): Partial<T> => {
+    const keptPaths = withSensitive ? exclude : [...exclude, ...sensitive];
+    const includedData = include
+      ? include.reduce<Record<string, any>>(
+          (acc, path) =>
+            hasPath(data, path) ? setPath(acc, path, getPath(data, path)) : acc,
+          { ...formData }
+        )
+      : data;
+    return keptPaths.reduce(
+      (acc, path) =>
+        hasPath(formData, path)
+          ? setPath(acc, path, getPath(formData, path))
+          : omitPath(acc, path),
+      includedData
+    ) as Partial<T>;
+  };
+
+  // 文件字段是否允许持久化，敏感文件字段无法只保存在会话中，同样不持久化（文件只保存在内存中）
+  const isFileFieldPersisted = (fieldName: string): boolean =>
+    (!include || isPathSelected(fieldName, include)) &&
+    !isPathSelected(fieldName, [...exclude, ...sensitive]);
+
+  // 基线数据按草稿的规则过滤，保证三方比较的字段一致
+  const filterBaselineData = (data: Record<string, any>): Record<string, any> =>
+    protectSensitiveFields(filterPersistedFields(data), sensitiveMode);
+
+  // 草稿所基于的服务器基线：恢复出冲突时沿用草稿原来的基线，冲突全部解决后更新为当前基线
+  let draftBaseline: ServerBaseline | undefined = baselineOption;
+  // 未解决的字段冲突
+  const conflicts = shallowRef<FieldConflict[]>([]);
+
+  // 与服务器当前数据三方合并：草稿基于旧版本时自动合并无冲突的字段
+  const mergeWithServer = (
+    data: Partial<T>,
+    baseline?: ServerBaseline
+  ): { data: Partial<T>; conflicts: FieldConflict[] } => {
+    if (!baselineOption || baseline?.version === baselineOption.version) {
+      return { data, conflicts: [] };
+    }
+
+    const merged = threeWayMerge(
+      baseline?.data,
+      data,
+      filterBaselineData(baselineOption.data)
+    );
+    return { data: merged.data as Partial<T>, conflicts: merged.conflicts };
+  };
+
+  // 应用合并产生的冲突
+  const applyConflicts = (
+    fieldConflicts: FieldConflict[],
+    baseline?: ServerBaseline
+  ): void => {
+    conflicts.value = fieldConflicts;
+    draftBaseline = fieldConflicts.length > 0 ? baseline : baselineOption;
+  };
+
+  // 序列化当前表单数据（经过类型编码），用于判断清除草稿后数据是否被修改
+  const stringifyFormData = (): string => JSON.stringify(encodeData(formData));
+
+  // 添加获取表单数据JSON的方法（不含排除的字段，敏感字段以掩码代替）
+  const getFormDataJson = (): string => {
+    const formDataCopy = protectSensitiveFields(
+      filterPersistedFields(formData),
+      "mask"
+    );
+    return JSON.stringify(formDataCopy);
+  };
+
+  // 生成文件摘要，只保留需要的信息
+  const summarizeFiles = (
+    files: Record<string, StoredFile[]>
+  ): Record<string, DraftFileSummary[]> =>
+    Object.fromEntries(
+      Object.entries(files).map(([fieldName, list]) => [
+        fieldName,
+        list.map((file) => ({
+          fileName: file.fileName,
+          fileSize: file.fileSize,
+          fileType: file.fileType,
+          lastModified: file.lastModified,
+        })),
+      ])
+    );
+
+  // 添加获取文件数据JSON的方法
+  const getFileDataJson = (): string => {
+    const fileDataCopy = { ...fileData };
+    // 转换文件数据，只保留需要的信息
+    const simplifiedFileData: Record<string, any[]> = {};
+
+    Object.keys(fileDataCopy).forEach((fieldName) => {
+      // 确保fileDataCopy[fieldName]是数组，避免undefined.map()错误
+      if (Array.isArray(fileDataCopy[fieldName])) {
+        simplifiedFileData[fieldName] = fileDataCopy[fieldName].map((file) => ({
+          fileName: file.fileName,
+          fileSize: file.fileSize,
+          fileType: file.fileType,
+          lastModified: file.lastModified,
+        }));
+      } else {
+        // 如果不是数组，初始化为空数组
+        simplifiedFileData[fieldName] = [];
+      }
+    });
+
+    return JSON.stringify(simplifiedFileData);
+  };
+  // 响应式表单数据
+  const formData = reactive<T>({ ...initialFormData });
+  // 响应式文件数据（键为字段名，值为文件数组）
+  const fileData: Reactive<Record<string, StoredFile[]>> = reactive(
+    fileFields.reduce((acc, field) => {
+      acc[field] = [];
+      return acc;
+    }, {} as Record<string, StoredFile[]>)
+  );
+  // 未保存状态标记
+  const hasUnsavedChanges = ref<boolean>(false);
+
+  // 初始值快照（formData与initialFormData共享嵌套对象，需在修改前深拷贝）
+  const initialSnapshot = cloneDeep(initialFormData) as Record<string, unknown>;
+  // 与初始值不同的字段（含已有文件的文件字段）
+  const dirtyFields = computed<string[]>(() => {
+    const fields = Object.keys({ ...initialSnapshot, ...formData }).filter(
+      (field) =>
+        !isDeepEqual(
+          (formData as Record<string, unknown>)[field],
+          initialSnapshot[field]
+        )
+    );
+    fileFields.forEach((field) => {
+      if ((fileData[field] || []).length > 0) {
+        fields.push(field);
+      }
+    });
+    return fields;
+  });
+  const isDirty = computed<boolean>(() => dirtyFields.value.length > 0);
+  // 用户修改过的字段（即使又改回了初始值）
+  const touchedFields = ref<string[]>([]);
+  // 程序写入表单数据（恢复草稿、同步、撤销等）时不记录为用户修改
+  let isApplyingData = false;
+
+  const markTouched = (field: string): void => {
+    if (!touchedFields.value.includes(field)) {
+      touchedFields.value = [...touchedFields.value, field];
+    }
+  };
+
+  // 程序写入表单数据
+  const assignFormData = (data: Partial<T>): void => {
+    isApplyingData = true;
+    try {
+      Object.assign(formData, data);
+    } finally {
+      isApplyingData = false;
+    }
+  };
+
+  // 上传进度
+  const uploadProgress = ref<UploadProgress | null>(null);
+  // 错误信息
+  const error = ref<string | null>(null);
+  // 存储键：长期草稿、会话草稿、正常关闭标记、草稿历史、跨标签页同步
+  const { storageKey, sessionKey, normalCloseKey, historyKey, syncKey } =
+    getDraftKeys(formId, keyPrefix);
+
+  // 检查数据是否过期
+  const isDataExpired = (savedAt?: string): boolean =>
+    isDraftExpired(savedAt, dataExpiryMs);
+
+  // 未配置加密却读取到加密数据时，给出明确的错误而不是解析失败
+  const assertReadableText = (text: string): void => {
+    if (!encryption && isEncryptedText(text)) {
+      throw new DecryptionError("草稿数据已加密，但未配置encryption选项");
+    }
+  };
+
+  // 创建草稿信封，附带草稿所基于的服务器基线
+  const createPayload = (data: Record<string, any>): PayloadEnvelope =>
+    createEnvelope(
+      formId,
+      currentSchemaVersion,
+      data,
+      draftBaseline && {
+        version: draftBaseline.version,
+        data: encodeData(filterBaselineData(draftBaseline.data)),
+      }
+    );
+
+  // 序列化为草稿信封
+  const serializePayload = (data: Record<string, any>): string =>
+    JSON.stringify(createPayload(data));
+
+  // 解析草稿信封（兼容无版本的旧数据）
+  const readPayload = (text: string): PayloadEnvelope => {
+    assertReadableText(text);
+    return parseEnvelope(text, formId);
+  };
+
+  // 解码草稿中保存的服务器基线
+  const decodeBaseline = (
+    baseline: ServerBaseline | undefined
+  ): ServerBaseline | undefined =>
+    baseline && { ...baseline, data: decodeData(baseline.data) };
+
+  // 将草稿升级到当前版本
+  const upgradePayload = (envelope: PayloadEnvelope): PayloadEnvelope =>
+    migrateEnvelope(envelope, currentSchemaVersion, migrations);
+
+  // 从sessionStorage恢复数据
+  const restoreFromSessionStorage = async (): Promise<{
+    formOnly: Partial<T>;
+    savedAt?: string;
+    baseline?: ServerBaseline;
+    success: boolean;
+  }> => {
+    try {
+      const savedText = await storageAdapter.getItem("session", sessionKey);
+      if (!savedText) {
+        return { formOnly: {}, success: false };
+      }
+
+      const envelope = readPayload(savedText);
+
+      // 检查数据是否过期
+      if (isDataExpired(envelope.savedAt)) {
+        await storageAdapter.removeItem("session", sessionKey);
+        events.emit("expire", { scope: "session", savedAt: envelope.savedAt });
+        return { formOnly: {}, success: false };
+      }
+
+      // 升级旧版本草稿后应用恢复后的数据转换
+      const upgraded = upgradePayload(envelope);
+      const transformedData = applyAfterRestoreTransform(
+        decodeData(upgraded.data)
+      );
+
+      // session模式下会话草稿包含敏感字段，可以一并恢复
+      return {
+        formOnly: mergeRestoredData(
+          transformedData,
+          sensitiveMode === "session"
+        ),
+        savedAt: envelope.savedAt,
+        baseline: decodeBaseline(upgraded.baseline),
+        success: true,
+      };
+    } catch (error) {
+      // 无法识别版本的草稿按配置丢弃
+      if (
+        error instanceof SchemaVersionError &&
+        unknownVersionPolicy === "discard"
+      ) {
+        await storageAdapter.removeItem("session", sessionKey);
+        return { formOnly: {}, success: false };
+      }
+      // 解密失败和无法识别版本直接抛出，由restoreData报告为恢复失败
+      if (
+        error instanceof DecryptionError ||
+        error instanceof SchemaVersionError
+      ) {
+        throw error;
+      }
+      handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        "从sessionStorage恢复数据",
+        errorLevel,
+        onError
+      );
+      return { formOnly: {}, success: false };
+    }
+  };
+
+  // 从localStorage恢复数据（崩溃恢复）
+  const restoreFromLocalStorage = async (): Promise<{
+    formOnly: Partial<T>;
+    savedAt?: string;
+    baseline?: ServerBaseline;
+    success: boolean;
+  }> => {
+    try {
+      const localStorageText = await storageAdapter.getItem(
+        "local",
+        storageKey
+      );
+      if (!localStorageText) {
+        return { formOnly: {}, success: false };
+      }
+
+      const envelope = readPayload(localStorageText);
+
+      // 检查数据是否过期
+      if (isDataExpired(envelope.savedAt)) {
+        await storageAdapter.removeItem("local", storageKey);
+        events.emit("expire", { scope: "local", savedAt: envelope.savedAt });
+        return { formOnly: {}, success: false };
+      }
+
+      // 升级旧版本草稿后应用恢复后的数据转换
+      const upgraded = upgradePayload(envelope);
+      const transformedData = applyAfterRestoreTransform(
+        decodeData(upgraded.data)
+      );
+
+      // 将恢复（并升级）的数据同步到sessionStorage
+      await storageAdapter.setItem(
+        "session",
+        sessionKey,
+        JSON.stringify(upgraded)
+      );
+
+      return {
+        formOnly: mergeRestoredData(transformedData, false),
+        savedAt: envelope.savedAt,
+        baseline: decodeBaseline(upgraded.baseline),
+        success: true,
+      };
+    } catch (error) {
+      // 无法识别版本的草稿按配置丢弃
+      if (
+        error instanceof SchemaVersionError &&
+        unknownVersionPolicy === "discard"
+      ) {
+        await storageAdapter.removeItem("local", storageKey);
+        return { formOnly: {}, success: false };
+      }
+      // 解密失败和无法识别版本直接抛出，由restoreData报告为恢复失败
+      if (
+        error instanceof DecryptionError ||
+        error instanceof SchemaVersionError
+      ) {
+        throw error;
+      }
+      handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        "从localStorage恢复数据",
+        errorLevel,
+        onError
+      );
+      return { formOnly: {}, success: false };
+    }
+  };
+
+  // 读取文件数据
+  const loadFileData = async (): Promise<Record<string, StoredFile[]>> => {
+    const files: Record<string, StoredFile[]> = {};
+
+    try {
+      for (const field of fileFields.filter(isFileFieldPersisted)) {
+        files[field] = await storageAdapter.listFiles(formId, field);
+      }
+    } catch (error) {
+      // 解密失败直接抛出，由restoreData报告为恢复失败
+      if (error instanceof DecryptionError) throw error;
+      handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        "恢复文件数据",
+        errorLevel,
+        onError
+      );
+    }
+    return files;
+  };
+
+  // 远程同步：推送失败或离线时排队重试，错误只报告不中断编辑
+  const remoteSync = remoteSyncOptions
+    ? new RemoteSync(formId, remoteSyncOptions, (err) =>
+        handleError(err, "同步远程草稿", errorLevel, onError)
+      )
+    : null;
+
+  // 推送长期存储版本的草稿与文件元数据
+  const pushRemoteDraft = (localText: string): void => {
+    remoteSync?.push({
+      envelope: JSON.parse(localText),
+      files: summarizeFiles(fileData),
+    });
+  };
+
+  // 读取存储中草稿的保存时间（毫秒），没有或无法读取时为0
+  const readSavedTime = async (
+    scope: StorageScope,
+    key: string
+  ): Promise<number> => {
+    try {
+      const text = await storageAdapter.getItem(scope, key);
+      const savedAt = text ? readPayload(text).savedAt : undefined;
+      return savedAt ? Date.parse(savedAt) : 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  // 拉取远程草稿：比本地草稿新时写入长期存储并返回true，本地较新时（如离线期间的修改）重新推送本地草稿
+  const pullRemoteDraft = async (): Promise<boolean> => {
+    if (!remoteSync) return false;
+
+    try {
+      const remote = await remoteSync.pull();
+      const remoteSavedTime = remote ? Date.parse(remote.envelope.savedAt) : 0;
+      const localSavedTime = Math.max(
+        await readSavedTime("session", sessionKey),
+        await readSavedTime("local", storageKey)
+      );
+
+      if (remote && remoteSavedTime > localSavedTime) {
+        await storageAdapter.setItem(
+          "local",
+          storageKey,
+          JSON.stringify(remote.envelope)
+        );
+        await storageAdapter.removeItem("session", sessionKey);
+        return true;
+      }
+
+      const localText = await storageAdapter.getItem("local", storageKey);
+      if (localText && localSavedTime > remoteSavedTime) {
+        pushRemoteDraft(localText);
+      }
+      return false;
+    } catch (err) {
+      handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "拉取远程草稿",
+        errorLevel,
+        onError
+      );
+      return false;
+    }
+  };
+
+  // 上次是否正常关闭：start在恢复前会移除正常关闭标记，因此在移除前记录
+  let closedNormally = false;
+
+  // 读取可恢复的草稿（不应用到表单），没有草稿时返回null
+  const loadDraft = async (): Promise<{
+    draft: PendingDraft<T>;
+    files: Record<string, StoredFile[]>;
+    baseline?: ServerBaseline;
+  } | null> => {
+    // 远程草稿较新时先写入长期存储，再从长期存储读取（来源为remote，不视为崩溃）
+    const isFromRemote = await pullRemoteDraft();
+
+    // 检查sessionKey是否存在（判断是刷新还是重新打开）
+    const sessionExists =
+      (await storageAdapter.getItem("session", sessionKey)) !== null;
+    // 检查是否有正常关闭标记（start已移除的标记以记录的结果为准）
+    const isNormalClose =
+      closedNormally ||
+      (await storageAdapter.getItem("local", normalCloseKey)) === "true";
+    // 检查localStorage中是否有数据
+    const hasLocalStorageData =
+      (await storageAdapter.getItem("local", storageKey)) !== null;
+
+    // 崩溃恢复逻辑：session不存在但localStorage有数据，并且没有正常关闭标记，说明是崩溃场景
+    // 长期存储中的数据来自远程草稿时，本地草稿已被替换，与上次是否崩溃无关
+    const isCrashRecovery =
+      !isFromRemote && !sessionExists && hasLocalStorageData && !isNormalClose;
+    // 重新打开时从localStorage恢复：崩溃、拉取到远程草稿，或正常关闭但保留了数据（clearOnClose=false）
+    const shouldRestoreFromLocal = !sessionExists && hasLocalStorageData;
+
+    // 优先从sessionStorage恢复（适用于页面刷新场景）
+    let restored = await restoreFromSessionStorage();
+    let isFromLocalStorage = false;
+    // 如果sessionStorage恢复失败且是重新打开，尝试从localStorage恢复
+    if (!restored.success && shouldRestoreFromLocal) {
+      const localStorageResult = await restoreFromLocalStorage();
+      if (isCrashRecovery) {
+        events.emit("crashDetected", {
+          recovered: localStorageResult.success,
+          savedAt: localStorageResult.savedAt,
+        });
+      }
+      if (localStorageResult.success) {
+        restored = localStorageResult;
+        isFromLocalStorage = true;
+      }
+    }
+
+    // 恢复文件数据的条件
+    const shouldRestoreFiles =
+      sessionExists ||
+      isFromLocalStorage ||
+      (!isNormalClose &&
+        (await storageAdapter.getItem("local", storageKey)) !== null);
+    const files = shouldRestoreFiles ? await loadFileData() : {};
+
+    const hasFiles = Object.values(files).some((list) => list.length > 0);
+    if (Object.keys(restored.formOnly).length === 0 && !hasFiles) {
+      return null;
+    }
+
+    // 草稿基于旧的服务器版本时与当前服务器数据合并
+    const merged = restored.success
+      ? mergeWithServer(restored.formOnly, restored.baseline)
+      : { data: restored.formOnly, conflicts: [] };
+
+    return {
+      draft: {
+        data: merged.data,
+        savedAt: restored.savedAt,
+        files: summarizeFiles(files),
+        source: isFromRemote
+          ? "remote"
+          : sessionExists
+          ? "session"
+          : isCrashRecovery
+          ? "crash"
+          : "reopen",
+        conflicts: merged.conflicts,
+      },
+      files,
+      baseline: restored.baseline,
+    };
+  };
+
+  // 将草稿应用到表单，并根据表单内容更新未保存状态
+  const applyDraft = (
+    data: Partial<T>,
+    files: Record<string, StoredFile[]>
+  ): void => {
+    if (Object.keys(data).length > 0) {
+      assignFormData(data);
+    }
+    Object.assign(fileData, files);
+
+    // 检查是否有实际数据被恢复，更新响应式状态
+    const hasData = Object.values(formData).some(
+      (val) => val !== null && val !== undefined && val !== ""
+    );
+    const hasFiles = Object.values(fileData).some((list) => list.length > 0);
+    hasUnsavedChanges.value = hasData || hasFiles;
+  };
+
+  // 草稿应用到表单后通知监听函数
+  const emitRestore = ({
+    source,
+    savedAt,
+    data,
+    files,
+  }: PendingDraft<T>): void => {
+    events.emit("restore", { source, savedAt, data, files });
+  };
+
+  // 初始化（含恢复草稿）是否已完成，是否正在恢复草稿
+  // 服务端渲染与客户端首次渲染都使用初始数据，挂载后才恢复草稿，避免水合不匹配
+  const ready = ref<boolean>(false);
+  const isRestoring = ref<boolean>(false);
+
+  // 待确认的草稿（prompt与manual模式）及其文件
+  const pendingDraft = shallowRef<PendingDraft<T> | null>(null);
+  let pendingFileData: Record<string, StoredFile[]> = {};
+  let pendingBaseline: ServerBaseline | undefined;
+  // 草稿无法读取（如密钥错误）时暂停一切写入，直到调用discardDraft或clearStorage，
+  // 避免以当前数据（或错误的密钥）覆盖原草稿
+  let restoreFailed = false;
+  // 恢复尚未完成（正在恢复，或manual模式下尚未调用restoreData）时暂停写入，避免覆盖尚未读取的草稿
+  let restorePending = false;
+  // 暂停期间跳过了保存，恢复完成后补存
+  let saveSkipped = false;
+
+  // 报告恢复失败并暂停写入
+  const handleRestoreError = (err: unknown): void => {
+    restoreFailed = true;
+    error.value = handleError(
+      err instanceof Error ? err : new Error(String(err)),
+      "恢复数据",
+      errorLevel,
+      onError
+    );
+    hasUnsavedChanges.value = false;
+  };
+
+  // 恢复数据 - 智能恢复机制，支持崩溃恢复
+  // auto模式直接应用草稿，prompt与manual模式只放入pendingDraft，等待acceptDraft或discardDraft
+  const restoreData = async (): Promise<void> => {
+    isRestoring.value = true;
+    restorePending = true;
+    try {
+      const loaded = await loadDraft();
+      restoreFailed = false;
+
+      if (restoreMode === "auto" || !loaded) {
+        applyDraft(loaded?.draft.data ?? {}, loaded?.files ?? {});
+        applyConflicts(loaded?.draft.conflicts ?? [], loaded?.baseline);
+        if (loaded) emitRestore(loaded.draft);
+      } else {
+        pendingDraft.value = loaded.draft;
+        pendingFileData = loaded.files;
+        pendingBaseline = loaded.baseline;
+      }
+      error.value = null;
+    } catch (err) {
+      handleRestoreError(err);
+    } finally {
+      isRestoring.value = false;
+      restorePending = false;
+    }
+
+    // 恢复期间的修改被跳过保存，草稿已应用（或没有草稿）后补存
+    if (saveSkipped) {
+      saveSkipped = false;
+      await saveTextData();
+    }
+  };
+
+  // 接受待确认的草稿，应用到表单
+  const acceptDraft = (): void => {
+    if (!pendingDraft.value) return;
+
+    const draft = pendingDraft.value;
+    pendingDraft.value = null;
+    applyDraft(draft.data, pendingFileData);
+    applyConflicts(draft.conflicts, pendingBaseline);
+    pendingFileData = {};
+    emitRestore(draft);
+  };
+
+  // 放弃待确认或无法读取的草稿，删除已存储的草稿数据
+  const discardDraft = async (): Promise<void> => {
+    if (!pendingDraft.value && !restoreFailed && !restorePending) return;
+
+    pendingDraft.value = null;
+    pendingFileData = {};
+    await clearStorage();
+  };
+
+  // 解决字段冲突并立即保存，全部解决后草稿改为基于当前的服务器基线
+  const resolveConflict = async (
+    field: string,
+    resolution: ConflictResolution
+  ): Promise<void> => {
+    const conflict = conflicts.value.find((item) => item.field === field);
+    if (!conflict) {
+      throw new Error(`字段[${field}]没有未解决的冲突`);
+    }
+
+    assignFormData({
+      [field]:
+        resolution === "local"
+          ? conflict.local
+          : resolution === "server"
+          ? conflict.server
+          : resolution.value,
+    } as Partial<T>);
+    applyConflicts(
+      conflicts.value.filter((item) => item !== conflict),
+      draftBaseline
+    );
+    await saveTextData();
+  };
+
+  // 草稿待确认时暂停保存，避免覆盖尚未恢复的草稿
+  const assertDraftResolved = (): void => {
+    if (pendingDraft.value) {
+      throw new Error("存在待恢复的草稿，请先调用acceptDraft或discardDraft");
+    }
+    if (restoreFailed) {
+      throw new Error("草稿恢复失败，请先调用discardDraft或clearStorage");
+    }
+    if (restorePending) {
+      throw new Error("草稿尚未恢复，请先调用restoreData或discardDraft");
+    }
+  };
+
+  // 清除错误信息
+  const clearError = (): void => {
+    error.value = null;
+  };
+
+  // 跨标签页同步配置
+  const tabSyncOptions: CrossTabSyncOptions | null =
+    crossTabSync === true ? {} : crossTabSync || null;
+  const tabSyncPolicy: TabSyncPolicy = tabSyncOptions?.policy ?? "mirror";
+  // 当前标签页标识
+  const tabId = createId();
+  // 跨标签页通信通道（挂载后创建）
+  let tabSyncChannel: TabSyncChannel | null = null;
+  // 是否被其他标签页锁定（lock策略）
+  const isLockedByOtherTab = ref<boolean>(false);
+  // 当前标签页是否持有编辑锁
+  let holdsTabLock = false;
+  // 持有编辑锁的标签页
+  let lockHolderTabId: string | null = null;
+  let lockQueryTimer: number | null = null;
+  // 最近一次从其他标签页应用的数据，保存时据此避免回传
+  let lastRemoteDataJson: string | null = null;
+
+  // 向其他标签页广播消息
+  const postTabSync = (message: TabSyncMessage): void => {
+    tabSyncChannel?.post(message);
+  };
+
+  // lock策略下被其他标签页锁定时禁止写入
+  const assertTabEditable = (): void => {
+    if (isLockedByOtherTab.value) {
+      throw new Error("表单正在其他标签页中编辑");
+    }
+  };
+
+  // 应用其他标签页保存的文本数据
+  const applyRemoteText = async (payload: string): Promise<void> => {
+    const { data } = upgradePayload(readPayload(payload));
+    lastRemoteDataJson = JSON.stringify(data);
+    assignFormData(
+      mergeRestoredData(applyAfterRestoreTransform(decodeData(data)), false)
+    );
+    // 同步到当前标签页的sessionStorage，刷新后恢复最新数据
+    await storageAdapter.setItem("session", sessionKey, payload);
+  };
+
+  // 重新加载其他标签页变更的文件字段
+  const applyRemoteFiles = async (fieldName: string): Promise<void> => {
+    // 不持久化的文件字段只存在于各自标签页的内存中
+    if (!isFileFieldPersisted(fieldName)) return;
+    fileData[fieldName] = await storageAdapter.listFiles(formId, fieldName);
+  };
+
+  // 尝试获取编辑锁：先查询，超时无人响应则声明持有
+  const requestTabLock = (): void => {
+    postTabSync({ type: "lock-query", tabId });
+    if (lockQueryTimer) {
+      clearTimeout(lockQueryTimer);
+    }
+    lockQueryTimer = window.setTimeout(() => {
+      lockQueryTimer = null;
+      if (!isLockedByOtherTab.value) {
+        holdsTabLock = true;
+        postTabSync({ type: "lock", tabId });
+      }
+    }, TAB_LOCK_QUERY_TIMEOUT);
+  };
+
+  // 处理其他标签页的消息
+  const handleTabSyncMessage = async (
+    message: TabSyncMessage
+  ): Promise<void> => {
+    if (message.tabId === tabId) return;
+
+    try {
+      switch (message.type) {
+        case "lock-query":
+          if (holdsTabLock) {
+            postTabSync({ type: "lock", tabId });
+          }
+          break;
+        case "lock":
+          // 双方同时声明持有时，标识较小的标签页保留编辑锁
+          if (holdsTabLock && tabId < message.tabId) {
+            postTabSync({ type: "lock", tabId });
+            break;
+          }
+          holdsTabLock = false;
+          lockHolderTabId = message.tabId;
+          isLockedByOtherTab.value = true;
+          break;
+        case "unlock":
+          if (message.tabId === lockHolderTabId) {
+            lockHolderTabId = null;
+            isLockedByOtherTab.value = false;
+            requestTabLock();
+          }
+          break;
+        case "text": {
+          const payload =
+            message.payload ??
+            (await storageAdapter.getItem("local", storageKey));
+          if (!payload) break;
+          const apply = () => applyRemoteText(payload);
+          if (tabSyncPolicy === "notify") {
+            const { data } = readPayload(payload);
+            tabSyncOptions?.onConflict?.({
+              type: "text",
+              sourceTabId: message.tabId,
+              data: decodeData(data),
+              apply,
+            });
+          } else {
+            await apply();
+          }
+          break;
+        }
+        case "files": {
+          const apply = () => applyRemoteFiles(message.fieldName);
+          if (tabSyncPolicy === "notify") {
+            tabSyncOptions?.onConflict?.({
+              type: "files",
+              sourceTabId: message.tabId,
+              fieldName: message.fieldName,
+              apply,
+            });
+          } else {
+            await apply();
+          }
+          break;
+        }
+      }
+    } catch (err) {
+      handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "跨标签页同步",
+        errorLevel,
+        onError
+      );
+    }
+  };
+
+  // 开始跨标签页同步
+  const startTabSync = (): void => {
+    if (!tabSyncOptions || tabSyncChannel) return;
+
+    tabSyncChannel = createTabSyncChannel(syncKey, handleTabSyncMessage);
+    if (tabSyncPolicy === "lock") {
+      requestTabLock();
+    }
+  };
+
+  // 停止跨标签页同步，释放持有的编辑锁
+  const stopTabSync = (): void => {
+    if (!tabSyncChannel) return;
+
+    if (lockQueryTimer) {
+      clearTimeout(lockQueryTimer);
+      lockQueryTimer = null;
+    }
+    if (holdsTabLock) {
+      postTabSync({ type: "unlock", tabId });
+      holdsTabLock = false;
+    }
+    tabSyncChannel.close();
+    tabSyncChannel = null;
+  };
+
+  // 草稿历史（撤销/重做与命名快照）
+  const historyOptions = historyOption === true ? {} : historyOption || null;
+  const draftHistory = historyOptions
+    ? new DraftHistory(
+        storageAdapter,
+        historyKey,
+        historyOptions.limit ?? DEFAULT_HISTORY_LIMIT,
+        isDataExpired,
+        currentSchemaVersion,
+        (entry, schemaVersion) =>
+          upgradePayload({ ...entry, schemaVersion, formId }).data
+      )
+    : null;
+  const canUndo = ref<boolean>(false);
+  const canRedo = ref<boolean>(false);
+  const snapshots = ref<DraftSnapshot[]>([]);
+
+  // 同步历史状态到响应式引用
+  const syncHistoryState = (): void => {
+    canUndo.value = draftHistory?.canUndo ?? false;
+    canRedo.value = draftHistory?.canRedo ?? false;
+    snapshots.value = draftHistory?.getSnapshots() ?? [];
+  };
+
+  // 存储配额：空间不足时按淘汰策略清理其他表单的草稿
+  const {
+    persist: persistStorage = false,
+    eviction: evictionPolicy = DEFAULT_EVICTION_POLICY,
+    reserveBytes = 0,
+    onEvict,
+  } = quotaOptions;
+
+  // 淘汰其他表单的草稿，返回淘汰后空间是否足够
+  const evictOtherDrafts = async (
+    hasEnoughSpace: () => Promise<boolean>
+  ): Promise<boolean> => {
+    const { evicted, satisfied } = await evictDrafts(storageAdapter, {
+      policy: evictionPolicy,
+      excludeFormId: formId,
+      prefix: keyPrefix,
+      isExpired: isDataExpired,
+      hasEnoughSpace,
+    });
+    if (evicted.length > 0) {
+      onEvict?.(evicted);
+    }
+    return satisfied;
+  };
+
+  // 保存文件前检查剩余空间，不足时先淘汰其他草稿，仍不足则抛出StorageQuotaError
+  const ensureStorageSpace = async (requiredBytes: number): Promise<void> => {
+    const hasEnoughSpace = async (): Promise<boolean> => {
+      const estimate = await estimateStorage();
+      // 浏览器不支持查询用量时不做检查，由写入时的配额错误兜底
+      return (
+        !estimate ||
+        estimate.quota - estimate.usage >= requiredBytes + reserveBytes
+      );
+    };
+
+    if ((await hasEnoughSpace()) || (await evictOtherDrafts(hasEnoughSpace))) {
+      return;
+    }
+    throw new StorageQuotaError(
+      `存储空间不足，保存文件需要${requiredBytes}字节`
+    );
+  };
+
+  // 写入文本数据，配额超限时淘汰其他草稿后重试
+  const setItemWithEviction = async (
+    scope: StorageScope,
+    key: string,
+    value: string
+  ): Promise<void> => {
+    const tryWrite = async (): Promise<boolean> => {
+      try {
+        await storageAdapter.setItem(scope, key, value);
+        return true;
+      } catch (err) {
+        if (isQuotaExceededError(err)) return false;
+        throw err;
+      }
+    };
+
+    if ((await tryWrite()) || (await evictOtherDrafts(tryWrite))) {
+      return;
+    }
+    throw new StorageQuotaError("存储空间不足，无法保存草稿");
+  };
+
+  // 生成草稿文本：排除不持久化的字段后应用保存前转换，session模式下敏感字段只写入会话存储
+  const serializeDraft = (
+    data: Record<string, any>
+  ): { sessionText: string; localText: string; localData: any } => {
+    const persistedData = filterPersistedFields(data);
+    const localData = encodeData(
+      applyBeforeSaveTransform(
+        protectSensitiveFields(persistedData, sensitiveMode)
+      )
+    );
+    const localText = serializePayload(localData);
+    const sessionText =
+      sensitiveMode === "session" &&
+      sensitive.some((path) => hasPath(persistedData, path))
+        ? serializePayload(encodeData(applyBeforeSaveTransform(persistedData)))
+        : localText;
+    return { sessionText, localText, localData };
+  };
+
+  // 先保存到sessionStorage，再保存到localStorage
+  const writeDraftText = async (
+    sessionText: string,
+    localText: string
+  ): Promise<void> => {
+    await setItemWithEviction("session", sessionKey, sessionText);
+    await setItemWithEviction("local", storageKey, localText);
+    pushRemoteDraft(localText);
+    events.emit("save", { savedAt: new Date().toISOString() });
+  };
+
+  // 保存文本数据 - 同时保存到localStorage和sessionStorage
+  const saveTextData = async (): Promise<void> => {
+    // 被其他标签页锁定时不写入，避免覆盖对方的数据
+    if (isLockedByOtherTab.value) return;
+    // 草稿待确认或恢复失败时不写入，避免覆盖尚未恢复的草稿
+    if (pendingDraft.value || restoreFailed) return;
+    if (restorePending) {
+      saveSkipped = true;
+      return;
+    }
+    // 提交期间以及草稿清除后数据未修改时不写入，避免写回已清除的草稿
+    if (isSubmitting.value) return;
+    if (clearedDataJson !== null) {
+      if (stringifyFormData() === clearedDataJson) return;
+      clearedDataJson = null;
+    }
+
+    try {
+      // 应用字段过滤与保存前的数据转换
+      const { sessionText, localText, localData } = serializeDraft(formData);
+      await writeDraftText(sessionText, localText);
+
+      // 通知其他标签页，刚从其他标签页同步过来的数据不再回传
+      // 广播的是长期存储的版本，敏感字段不会离开当前标签页
+      if (JSON.stringify(localData) !== lastRemoteDataJson) {
+        // 加密时不在消息中携带明文，由接收方从存储中读取
+        postTabSync({
+          type: "text",
+          tabId,
+          payload: encryption ? undefined : localText,
+        });
+      }
+      lastRemoteDataJson = null;
+
+      // 记录草稿历史
+      if (draftHistory) {
+        await draftHistory.push(localData);
+        syncHistoryState();
+      }
+
+      hasUnsavedChanges.value = true;
+      error.value = null;
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "保存文本数据",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+    }
+  };
+
+  // 应用历史数据并立即保存
+  const applyHistoryData = async (
+    data: Record<string, unknown>
+  ): Promise<void> => {
+    assignFormData(
+      mergeRestoredData(applyAfterRestoreTransform(decodeData(data)), false)
+    );
+    await saveTextData();
+  };
+
+  // 获取草稿历史，未启用时抛出错误
+  const requireDraftHistory = (): DraftHistory => {
+    if (!draftHistory) {
+      throw new Error("未启用草稿历史，请设置history选项");
+    }
+    return draftHistory;
+  };
+
+  // 撤销到上一条历史
+  const undo = async (): Promise<void> => {
+    try {
+      assertDraftResolved();
+      const data = await requireDraftHistory().undo();
+      syncHistoryState();
+      if (data) {
+        await applyHistoryData(data);
+      }
+    } catch (err) {
+      error.value = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "撤销",
+        errorLevel,
+        onError
+      );
+    }
+  };
+
+  // 重做到下一条历史
+  const redo = async (): Promise<void> => {
+    try {
+      assertDraftResolved();
+      const data = await requireDraftHistory().redo();
+      syncHistoryState();
+      if (data) {
+        await applyHistoryData(data);
+      }
+    } catch (err) {
+      error.value = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "重做",
+        errorLevel,
+        onError
+      );
+    }
+  };
+
+  // 以当前表单数据创建命名快照
+  const createSnapshot = async (label: string): Promise<DraftSnapshot> => {
+    try {
+      assertDraftResolved();
+      // 与草稿历史相同，使用排除不持久化字段与敏感字段后的长期存储版本
+      const snapshot = await requireDraftHistory().createSnapshot(
+        label,
+        serializeDraft(formData).localData
+      );
+      syncHistoryState();
+      return snapshot;
+    } catch (err) {
+      error.value = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "创建快照",
+        errorLevel,
+        onError
+      );
+      throw err;
+    }
+  };
+
+  // 恢复命名快照（恢复操作本身会记录到历史中，可以撤销）
+  const restoreSnapshot = async (id: string): Promise<void> => {
+    try {
+      assertDraftResolved();
+      const snapshot = requireDraftHistory().getSnapshot(id);
+      if (!snapshot) {
+        throw new Error(`快照不存在: ${id}`);
+      }
+      await applyHistoryData(snapshot.data);
+    } catch (err) {
+      error.value = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "恢复快照",
+        errorLevel,
+        onError
+      );
+      throw err;
+    }
+  };
+
+  // 保存单个文件
+  const saveSingleFile = async (
+    file: File,
+    fieldName: string,
+    totalSize: number,
+    loadedSize: number
+  ): Promise<StoredFile> => {
+    return storageAdapter.putFile(file, formId, fieldName, (loaded) => {
+      // 简化的进度计算逻辑
+      const currentLoaded = loadedSize + loaded;
+      const percent = Math.round((currentLoaded / totalSize) * 100);
+
+      uploadProgress.value = {
+        fieldName,
+        total: totalSize,
+        loaded: currentLoaded,
+        percent,
+      };
+    });
+  };
+
+  // 不持久化的文件字段：文件只保存在内存中（页面关闭后丢失），使用负数ID与存储中的文件区分
+  let nextMemoryFileId = -1;
+  const createMemoryFile = (file: File, fieldName: string): StoredFile => ({
+    fileId: nextMemoryFileId--,
+    formId,
+    fieldName,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    lastModified: file.lastModified,
+    data: file,
+    savedTime: new Date().toISOString(),
+  });
+
+  // 文件变更后同步更新文本存储
+  const saveFileMarker = async (): Promise<void> => {
+    // 关键点：确保即使只有文件数据，也更新 localStorage
+    // 创建一个临时对象，不修改原始的formData
+    const tempFormData = { ...formData };
+    // 添加一个内部标记字段，表示有文件数据存在
+    Object.defineProperty(tempFormData, '__hasFileData', {
+      value: true,
+      enumerable: false,
+      configurable: true
+    });
+
+    // 应用字段过滤与保存前的数据转换
+    const { sessionText, localText } = serializeDraft(tempFormData);
+
+    // 更新存储
+    await writeDraftText(sessionText, localText);
+
+    hasUnsavedChanges.value = true;
+  };
+
+  // 保存文件 - replace模式替换字段的全部文件，append模式追加到已有文件之后
+  const saveFiles = async (
+    fieldName: string,
+    files: File[],
+    mode: FileSaveMode = "replace"
+  ): Promise<void> => {
+    try {
+      error.value = null;
+      uploadProgress.value = null;
+
+      assertTabEditable();
+      assertDraftResolved();
+
+      // 参数验证
+      if (!fieldName || !files || files.length === 0) {
+        throw new Error("无效的文件保存参数");
+      }
+
+      // 被排除或敏感的文件字段只保存在内存中，不写入存储
+      if (!isFileFieldPersisted(fieldName)) {
+        const memoryFiles = files.map((file) =>
+          createMemoryFile(file, fieldName)
+        );
+        fileData[fieldName] =
+          mode === "replace"
+            ? memoryFiles
+            : [...(fileData[fieldName] || []), ...memoryFiles];
+        markTouched(fieldName);
+        events.emit("filesSaved", {
+          fieldName,
+          files: memoryFiles,
+          mode,
+          persisted: false,
+        });
+        return;
+      }
+
+      // 检查剩余空间，替换模式下旧文件占用的空间会被释放
+      const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+      const releasedSize =
+        mode === "replace"
+          ? (fileData[fieldName] || []).reduce(
+              (sum, file) => sum + file.fileSize,
+              0
+            )
+          : 0;
+      await ensureStorageSpace(totalSize - releasedSize);
+
+      // 替换模式下先删除旧文件
+      if (mode === "replace") {
+        await storageAdapter.deleteFiles(formId, fieldName);
+      }
+
+      // 保存新文件，添加进度跟踪
+      const newFiles: StoredFile[] = [];
+      let loadedSize = 0;
+
+      for (const file of files) {
+        const savedFile = await saveSingleFile(
+          file,
+          fieldName,
+          totalSize,
+          loadedSize
+        );
+        newFiles.push(savedFile);
+        loadedSize += file.size;
+      }
+
+      fileData[fieldName] =
+        mode === "replace"
+          ? newFiles
+          : [...(fileData[fieldName] || []), ...newFiles];
+      markTouched(fieldName);
+
+      await saveFileMarker();
+      postTabSync({ type: "files", tabId, fieldName });
+      uploadProgress.value = null; // 上传完成，清除进度
+      events.emit("filesSaved", {
+        fieldName,
+        files: newFiles,
+        mode,
+        persisted: true,
+      });
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "保存文件",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      uploadProgress.value = null;
+      throw err; // 重新抛出错误以便调用方可以捕获
+    }
+  };
+
+  // 追加文件，保留字段已有的文件
+  const addFiles = (fieldName: string, files: File[]): Promise<void> =>
+    saveFiles(fieldName, files, "append");
+
+  // 查找字段中的文件，不存在时抛出错误
+  const findFileIndex = (fieldName: string, fileId: number): number => {
+    const index = (fileData[fieldName] || []).findIndex(
+      (file) => file.fileId === fileId
+    );
+    if (index === -1) {
+      throw new Error(`字段[${fieldName}]中不存在文件: ${fileId}`);
+    }
+    return index;
+  };
+
+  // 删除单个文件
+  const removeFile = async (
+    fieldName: string,
+    fileId: number
+  ): Promise<void> => {
+    try {
+      error.value = null;
+      assertTabEditable();
+      assertDraftResolved();
+      findFileIndex(fieldName, fileId);
+      const persisted = isFileFieldPersisted(fieldName);
+
+      if (persisted) {
+        await storageAdapter.removeFiles([fileId]);
+      }
+      fileData[fieldName] = (fileData[fieldName] || []).filter(
+        (file) => file.fileId !== fileId
+      );
+      markTouched(fieldName);
+
+      if (persisted) {
+        await saveFileMarker();
+        postTabSync({ type: "files", tabId, fieldName });
+      }
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "删除文件",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      throw err;
+    }
+  };
+
+  // 替换单个文件，新文件保持原文件的位置
+  const replaceFile = async (
+    fieldName: string,
+    fileId: number,
+    file: File
+  ): Promise<void> => {
+    try {
+      error.value = null;
+      uploadProgress.value = null;
+      assertTabEditable();
+      assertDraftResolved();
+      const index = findFileIndex(fieldName, fileId);
+
+      // 不持久化的文件字段只替换内存中的文件
+      if (!isFileFieldPersisted(fieldName)) {
+        const memoryFile = createMemoryFile(file, fieldName);
+        const files = [...(fileData[fieldName] || [])];
+        files[index] = memoryFile;
+        fileData[fieldName] = files;
+        markTouched(fieldName);
+        events.emit("filesSaved", {
+          fieldName,
+          files: [memoryFile],
+          mode: "replace",
+          persisted: false,
+        });
+        return;
+      }
+
+      await ensureStorageSpace(file.size);
+
+      // 先保存新文件，成功后再删除旧文件，避免失败时丢失原文件
+      const savedFile = await saveSingleFile(file, fieldName, file.size, 0);
+      await storageAdapter.removeFiles([fileId]);
+
+      const files = [...(fileData[fieldName] || [])];
+      files[index] = savedFile;
+      await storageAdapter.reorderFiles(
+        formId,
+        fieldName,
+        files.map((f) => f.fileId)
+      );
+      fileData[fieldName] = files;
+      markTouched(fieldName);
+
+      await saveFileMarker();
+      postTabSync({ type: "files", tabId, fieldName });
+      uploadProgress.value = null;
+      events.emit("filesSaved", {
+        fieldName,
+        files: [savedFile],
+        mode: "replace",
+        persisted: true,
+      });
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "替换文件",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      uploadProgress.value = null;
+      throw err;
+    }
+  };
+
+  // 调整字段内文件顺序，fileIds须包含该字段的全部文件
+  const reorderFiles = async (
+    fieldName: string,
+    fileIds: number[]
+  ): Promise<void> => {
+    try {
+      error.value = null;
+      assertTabEditable();
+      assertDraftResolved();
+      const files = fileData[fieldName] || [];
+      const filesById = new Map(files.map((file) => [file.fileId, file]));
+
+      if (
+        fileIds.length !== files.length ||
+        new Set(fileIds).size !== fileIds.length ||
+        fileIds.some((fileId) => !filesById.has(fileId))
+      ) {
+        throw new Error(`字段[${fieldName}]的文件排序参数无效`);
+      }
+
+      const persisted = isFileFieldPersisted(fieldName);
+      if (persisted) {
+        await storageAdapter.reorderFiles(formId, fieldName, fileIds);
+      }
+      fileData[fieldName] = fileIds.map((fileId) => filesById.get(fileId)!);
+      markTouched(fieldName);
+
+      if (persisted) {
+        await saveFileMarker();
+        postTabSync({ type: "files", tabId, fieldName });
+      }
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "调整文件顺序",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      throw err;
+    }
+  };
+
+  // 导出草稿：包含长期存储版本的表单数据（不含敏感字段）与全部文件内容，可在其他设备导入
+  const exportDraft = async (): Promise<Blob> => {
+    try {
+      const { localData } = serializeDraft(formData);
+      const archive = await createDraftArchive(
+        formId,
+        createPayload(localData),
+        Object.fromEntries(
+          fileFields
+            .filter(isFileFieldPersisted)
+            .map((fieldName) => [fieldName, fileData[fieldName] || []])
+        )
+      );
+      return new Blob([JSON.stringify(archive)], {
+        type: "application/json",
+      });
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "导出草稿",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      throw err;
+    }
+  };
+
+  // 导入草稿：校验导出文件后替换当前的表单数据与已保存的文件，并立即保存
+  const importDraft = async (source: Blob | string): Promise<void> => {
+    try {
+      error.value = null;
+      assertTabEditable();
+      assertDraftResolved();
+
+      const archive = parseDraftArchive(
+        typeof source === "string" ? source : await source.text(),
+        formId
+      );
+
+      // 先升级并解码全部数据，任何一步失败都不修改当前草稿
+      let upgraded: PayloadEnvelope;
+      try {
+        upgraded = upgradePayload(archive.draft);
+      } catch (err) {
+        throw new DraftImportError(
+          `导出文件中的草稿无法升级: ${
+            err instanceof Error ? err.message : String(err)
+          }`
+        );
+      }
+      const baseline = decodeBaseline(upgraded.baseline);
+      const merged = mergeWithServer(
+        mergeRestoredData(
+          applyAfterRestoreTransform(decodeData(upgraded.data)),
+          false
+        ),
+        baseline
+      );
+      const importedFields = fileFields.filter(isFileFieldPersisted);
+      const files = Object.fromEntries(
+        importedFields.map((fieldName) => [
+          fieldName,
+          (archive.files[fieldName] || []).map(decodeArchiveFile),
+        ])
+      );
+
+      // 检查剩余空间，当前文件占用的空间会被释放
+      const totalSize = Object.values(files)
+        .flat()
+        .reduce((sum, file) => sum + file.size, 0);
+      const releasedSize = importedFields
+        .flatMap((fieldName) => fileData[fieldName] || [])
+        .reduce((sum, file) => sum + file.fileSize, 0);
+      await ensureStorageSpace(totalSize - releasedSize);
+
+      // 替换文件字段的全部文件
+      let loadedSize = 0;
+      for (const fieldName of importedFields) {
+        await storageAdapter.deleteFiles(formId, fieldName);
+        const savedFiles: StoredFile[] = [];
+        for (const file of files[fieldName]!) {
+          savedFiles.push(
+            await saveSingleFile(file, fieldName, totalSize, loadedSize)
+          );
+          loadedSize += file.size;
+        }
+        fileData[fieldName] = savedFiles;
+        postTabSync({ type: "files", tabId, fieldName });
+        if (savedFiles.length > 0) {
+          events.emit("filesSaved", {
+            fieldName,
+            files: savedFiles,
+            mode: "replace",
+            persisted: true,
+          });
+        }
+      }
+      uploadProgress.value = null;
+
+      assignFormData(merged.data);
+      applyConflicts(merged.conflicts, baseline);
+      // 导入是明确的写入操作，即使数据与清除时相同也要保存
+      clearedDataJson = null;
+      await saveTextData();
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "导入草稿",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      uploadProgress.value = null;
+      throw err;
+    }
+  };
+
+  // 页面离开处理 - 根据autoSave配置决定是否保存数据
+  const handlePageLeave = (): void => {
+    // 只有在autoSave为true时才自动保存数据
+    if (autoSave && hasUnsavedChanges.value) {
+      saveTextData();
+    }
+  };
+
+  // beforeunload处理 - 显示确认提示
+  const handleBeforeUnload = (e: BeforeUnloadEvent): void => {
+    // 只有在autoSave为false且表单与初始值不同时，才显示确认提示
+    // 因为autoSave为true时数据会自动保存，不需要提示
+    if (!autoSave && isDirty.value && !clearOnClose) {
+      e.preventDefault();
+      // e.returnValue = "有未保存的数据，是否离开？";
+    }
+  };
+
+  // 页面关闭时处理
+  const handlePageClose = async (): Promise<void> => {
+    // 只有在autoSave为true时才自动保存数据
+    if (autoSave && hasUnsavedChanges.value) {
+      handlePageLeave();
+    }
+
+    // 只有在pagehide事件触发时才设置正常关闭标记
+    // 因为visibilitychange可能在切换标签页等场景下触发
+    // 恢复失败时不写入，标记会以错误的密钥加密，导致下次无法读取
+    if (document.visibilityState === "hidden" && !restoreFailed) {
+      // 可以添加额外的检查来判断是否真正要关闭页面
+      // 这里使用sessionStorage作为临时存储，因为浏览器崩溃时sessionStorage会被清除
+      await storageAdapter.setItem("session", normalCloseKey, "true");
+      // 然后复制到localStorage以便下次启动时检查
+      // 没有长期草稿时无需标记，避免残留的标记被当作以该后缀结尾的表单的草稿（参见parseDraftKey）
+      setTimeout(async () => {
+        if (
+          (await storageAdapter.getItem("session", normalCloseKey)) &&
+          (await storageAdapter.getItem("local", storageKey)) !== null
+        ) {
+          await storageAdapter.setItem("local", normalCloseKey, "true");
+        }
+      }, 0);
+    }
+  };
+
+  // 清理存储
+  const clearStorage = async (): Promise<void> => {
+    try {
+      // 清除sessionStorage数据
+      await storageAdapter.removeItem("session", sessionKey);
+
+      // 清除localStorage数据
+      await storageAdapter.removeItem("local", storageKey);
+      await storageAdapter.removeItem("local", normalCloseKey);
+
+      // 清除IndexedDB数据
+      await storageAdapter.deleteFiles(formId);
+
+      // 删除远程草稿
+      remoteSync?.remove();
+
+      // 清除草稿历史
+      await draftHistory?.clear();
+      syncHistoryState();
+
+      // 草稿已删除，冲突随之失效
+      applyConflicts([]);
+
+      // 重置状态，草稿已删除，恢复失败随之解除
+      hasUnsavedChanges.value = false;
+      error.value = null;
+      restoreFailed = false;
+      restorePending = false;
+      saveSkipped = false;
+
+      // 清空文件数据并通知其他标签页
+      for (const field of fileFields) {
+        fileData[field] = [];
+        postTabSync({ type: "files", tabId, fieldName: field });
+      }
+      events.emit("clear", { reason: "clear" });
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "清理存储",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+    }
+  };
+
+  // 创建防抖函数 - 现在基于自动保存间隔
+  let saveTimer: number | null = null;
+  const debouncedSave = () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+    }
+
+    // 只有当autoSaveInterval不是false时才设置定时器
+    if (autoSaveInterval !== false) {
+      saveTimer = window.setTimeout(() => {
+        saveTextData();
+      }, autoSaveInterval);
+    }
+  };
+
+  // 启动后创建的监听器，stop时统一停止
+  let watchScope: EffectScope | null = null;
+
+  const startWatchers = (): void => {
+    // 同步监听每个字段，区分用户修改与程序写入
+    Object.keys(initialSnapshot).forEach((field) => {
+      watch(
+        () => (formData as Record<string, unknown>)[field],
+        () => {
+          if (!isApplyingData) {
+            markTouched(field);
+          }
+        },
+        { deep: true, flush: "sync" }
+      );
+    });
+
+    // 监听表单数据变化 - 根据配置决定是否自动保存
+    // 只有当autoSave为true且autoSaveInterval不是false时才启用自动保存
+    if (autoSave && autoSaveInterval !== false) {
+      watch(formData, () => debouncedSave(), { deep: true });
+    }
+  };
+
+  // 移除了失去焦点时保存的功能
+
+  // 提交状态
+  const isSubmitting = ref<boolean>(false);
+  const lastSubmitError = ref<Error | null>(null);
+  // 最近一次清除草稿（提交成功或重置）时的数据，数据未再修改前不自动保存，避免写回已清除的草稿
+  let clearedDataJson: string | null = null;
+
+  // 提交表单：处理函数成功后清除草稿，失败时保留草稿
+  const submit = async <R>(handler: SubmitHandler<T, R>): Promise<R> => {
+    if (isSubmitting.value) {
+      throw new Error("表单正在提交中");
+    }
+
+    // 提交期间暂停自动保存
+    isSubmitting.value = true;
+    lastSubmitError.value = null;
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+
+    let result: R;
+    try {
+      const files = Object.fromEntries(
+        Object.entries(fileData).map(([fieldName, list]) => [
+          fieldName,
+          list.map(toFile),
+        ])
+      );
+      result = await handler({ ...formData } as T, files);
+    } catch (err) {
+      lastSubmitError.value =
+        err instanceof Error ? err : new Error(String(err));
+      isSubmitting.value = false;
+      // 保留草稿，并补存提交期间的修改
+      await saveTextData();
+      throw err;
+    }
+
+    clearedDataJson = stringifyFormData();
+    await clearStorage();
+    isSubmitting.value = false;
+    return result;
+  };
+
+  // 重置表单为初始值并清除草稿
+  const reset = async (): Promise<void> => {
+    assignFormData(cloneDeep(initialSnapshot) as Partial<T>);
+    touchedFields.value = [];
+    clearedDataJson = stringifyFormData();
+    await clearStorage();
+  };
+
+  // 重置单个字段为初始值并更新存储，文件字段会删除已保存的文件
+  const resetField = async (field: string): Promise<void> => {
+    try {
+      if (fileFields.includes(field)) {
+        error.value = null;
+        assertTabEditable();
+        assertDraftResolved();
+
+        await storageAdapter.deleteFiles(formId, field);
+        fileData[field] = [];
+        await saveFileMarker();
+        postTabSync({ type: "files", tabId, fieldName: field });
+      } else {
+        assignFormData({
+          [field]: cloneDeep(initialSnapshot[field]),
+        } as Partial<T>);
+        await saveTextData();
+      }
+      touchedFields.value = touchedFields.value.filter(
+        (item) => item !== field
+      );
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        `重置字段[${field}]`,
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      throw err;
+    }
+  };
+
+  // 清理正常关闭数据
+  const cleanNormalCloseData = async (): Promise<void> => {
+    if (clearOnClose) {
+      try {
+        // 清除所有存储
+        await storageAdapter.removeItem("session", sessionKey);
+        await storageAdapter.removeItem("local", storageKey);
+        await storageAdapter.removeItem("local", normalCloseKey);
+
+        // 清除IndexedDB数据
+        await storageAdapter.deleteFiles(formId);
+
+        // 清除草稿历史
+        await draftHistory?.clear();
+
+        // 清空文件数据
+        for (const field of fileFields) {
+          fileData[field] = [];
+        }
+        events.emit("clear", { reason: "close" });
+      } catch (err) {
+        handleError(
+          err instanceof Error ? err : new Error(String(err)),
+          "清理正常关闭数据",
+          errorLevel,
+          onError
+        );
+      }
+    }
+  };
+
+  // 清理其他表单的过期草稿与孤立文件，当前表单的草稿由自身的恢复逻辑处理
+  const sweepExpiredDrafts = async (): Promise<SweepResult> => {
+    try {
+      const result = await sweepStoredDrafts({
+        storageAdapter,
+        dataExpiryMs,
+        excludeFormIds: [formId],
+        keyPrefix,
+      });
+      onSweep?.(result);
+      return result;
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "清理过期草稿",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+      throw err;
+    }
+  };
+
+  // 启动序号：stop之后，尚未完成的start不再注册事件监听
+  let startId = 0;
+
+  // 启动：初始化存储、恢复草稿并开始监听（重复调用无效，服务端不执行）
+  const start = async (): Promise<void> => {
+    if (watchScope || !isBrowser()) return;
+    const currentStartId = ++startId;
+    // 监听器先于恢复启动，恢复完成前的修改暂不保存
+    restorePending = true;
+    watchScope = effectScope(true);
+    watchScope.run(startWatchers);
+
+    try {
+      // 初始化存储适配器
+      await storageAdapter.init?.();
+      remoteSync?.start();
+      // 请求持久化存储，被拒绝时不影响使用
+      if (persistStorage) {
+        await requestPersistentStorage();
+      }
+
+      // 读取存储状态并加载草稿历史，读取失败（如密钥错误）按恢复失败处理：
+      // 不清理也不恢复，事件监听照常注册
+      let sessionExists = false;
+      let isReadable = true;
+      try {
+        // 检查sessionKey是否存在（判断是刷新还是重新打开）
+        sessionExists =
+          (await storageAdapter.getItem("session", sessionKey)) !== null;
+        // 检查是否有正常关闭标记
+        const isNormalClose =
+          (await storageAdapter.getItem("local", normalCloseKey)) === "true";
+        closedNormally = isNormalClose;
+
+        // 核心清理逻辑：
+        // 1. 当clearOnClose=true且检测到正常关闭标记时，必须清空所有数据
+        // 2. 无论是否有数据，都需要移除normal_close标记，为下次运行做准备
+        if (!sessionExists && isNormalClose && clearOnClose) {
+          // 先移除normal_close标记，避免多次触发清理
+          await storageAdapter.removeItem("local", normalCloseKey);
+          // 执行清理操作，清空所有存储的数据
+          await cleanNormalCloseData();
+        }
+        // 当检测到正常关闭标记但clearOnClose=false时，只移除标记，保留数据
+        else if (!sessionExists && isNormalClose) {
+          await storageAdapter.removeItem("local", normalCloseKey);
+        }
+
+        // 加载草稿历史
+        await draftHistory?.load();
+        syncHistoryState();
+      } catch (err) {
+        isReadable = false;
+        handleRestoreError(err);
+      }
+
+      // 恢复数据（包括文件），manual模式由调用方自行调用restoreData，在此之前暂停写入
+      // 注意：由于上面的清理逻辑，正常关闭且clearOnClose=true的情况下，此处不会有数据可恢复
+      if (isReadable && restoreMode !== "manual") {
+        await restoreData();
+      } else if (isReadable) {
+        restorePending = true;
+      }
+
+      // 在恢复完成后，如果没有session存在（表示不是刷新），确保移除normal_close标记
+      // 这是为了确保下次正常关闭时能正确标记
+      if (isReadable && !sessionExists) {
+        await storageAdapter.removeItem("local", normalCloseKey);
+      }
+
+      // 初始化期间已经停止
+      if (currentStartId !== startId) return;
+
+      // 添加事件监听
+      document.addEventListener("visibilitychange", handlePageClose);
+      window.addEventListener("beforeunload", handleBeforeUnload);
+      window.addEventListener("pagehide", handlePageClose);
+      window.addEventListener("pagehide", stopTabSync);
+
+      // 恢复完成后开始跨标签页同步
+      startTabSync();
+
+      // 后台清理过期草稿，不阻塞初始化（错误已在sweepExpiredDrafts中处理）
+      if (autoSweep) {
+        sweepExpiredDrafts().catch(() => {});
+      }
+    } catch (err) {
+      const errorMessage = handleError(
+        err instanceof Error ? err : new Error(String(err)),
+        "初始化表单持久化",
+        errorLevel,
+        onError
+      );
+      error.value = errorMessage;
+    } finally {
+      // 初始化失败也视为完成，避免一直显示加载状态
+      if (currentStartId === startId) {
+        ready.value = true;
+      }
+    }
+  };
+
+  // 停止：停止监听与待执行的自动保存，移除事件监听
+  const stop = (): void => {
+    startId++;
+    watchScope?.stop();
+    watchScope = null;
+    if (!isBrowser()) return;
+
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    document.removeEventListener("visibilitychange", handlePageClose);
+    window.removeEventListener("beforeunload", handleBeforeUnload);
+    window.removeEventListener("pagehide", handlePageClose);
+    window.removeEventListener("pagehide", stopTabSync);
+    stopTabSync();
+    remoteSync?.stop();
+  };
+
+  // 更新表单数据，与用户在表单中输入相同
+  const update = (data: Partial<T>): void => {
+    Object.assign(formData, data);
+  };
+
+  // 状态快照：依赖的状态变化后才重新生成，未变化时返回同一对象
+  const stateSnapshot = computed<FormPersistenceState<T>>(() => ({
+    formData: cloneDeep({ ...formData }) as T,
+    fileData: cloneDeep({ ...fileData }),
+    ready: ready.value,
+    isRestoring: isRestoring.value,
+    hasUnsavedChanges: hasUnsavedChanges.value,
+    uploadProgress: uploadProgress.value && { ...uploadProgress.value },
+    error: error.value,
+    isLockedByOtherTab: isLockedByOtherTab.value,
+    canUndo: canUndo.value,
+    canRedo: canRedo.value,
+    snapshots: snapshots.value,
+    pendingDraft: pendingDraft.value,
+    conflicts: conflicts.value,
+    isSubmitting: isSubmitting.value,
+    lastSubmitError: lastSubmitError.value,
+    isDirty: isDirty.value,
+    dirtyFields: dirtyFields.value,
+    touchedFields: touchedFields.value,
+  }));
+
+  const getState = (): FormPersistenceState<T> => stateSnapshot.value;
+
+  // 状态订阅：有订阅者时才监听状态变化
+  const listeners = new Set<FormPersistenceListener<T>>();
+  let stopStateWatch: WatchStopHandle | null = null;
+
+  const subscribe = (listener: FormPersistenceListener<T>): (() => void) => {
+    listeners.add(listener);
+    stopStateWatch ??= watch(stateSnapshot, (state) => {
+      listeners.forEach((item) => item(state));
+    });
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        stopStateWatch?.();
+        stopStateWatch = null;
+      }
+    };
+  };
+
+  return {
+    start,
+    stop,
+    update,
+    getState,
+    subscribe,
+    state: {
+      formData,
+      fileData,
+      ready,
+      isRestoring,
+      hasUnsavedChanges,
+      uploadProgress,
+      error,
+      isLockedByOtherTab,
+      canUndo,
+      canRedo,
+      snapshots,
+      pendingDraft,
+      conflicts,
+      isSubmitting,
+      lastSubmitError,
+      isDirty,
+      dirtyFields,
+      touchedFields,
+    },
+    saveFiles,
+    addFiles,
+    removeFile,
+    replaceFile,
+    reorderFiles,
+    clearStorage,
+    restoreData,
+    clearError,
+    getFormDataJson,
+    getFileDataJson,
+    exportDraft,
+    importDraft,
+    registerTransformMiddleware,
+    registerFieldTransforms,
+    registerTypeCodec,
+    undo,
+    redo,
+    createSnapshot,
+    restoreSnapshot,
+    sweepExpiredDrafts,
+    acceptDraft,
+    discardDraft,
+    resolveConflict,
+    submit,
+    reset,
+    resetField,
+    on: (event, handler) => events.on(event, handler),
+    off: (event, handler) => events.off(event, handler),
+  };
+}
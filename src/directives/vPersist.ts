@@ -0,0 +1,117 @@
+import { watch, type ObjectDirective, type WatchStopHandle } from "vue";
+import type { PersistDirectiveValue } from "../types/componentType";
+
+type PersistElement =
+  | HTMLInputElement
+  | HTMLTextAreaElement
+  | HTMLSelectElement;
+
+// 元素与表单数据之间的绑定
+interface PersistBinding {
+  eventName: "input" | "change";
+  handleEvent: () => void;
+  stopWatch: WatchStopHandle;
+}
+
+const bindings = new WeakMap<PersistElement, PersistBinding>();
+
+const isCheckable = (el: PersistElement): el is HTMLInputElement =>
+  el instanceof HTMLInputElement &&
+  (el.type === "checkbox" || el.type === "radio");
+
+const isChecked = (el: PersistElement): boolean =>
+  isCheckable(el) && el.checked;
+
+// 读取元素的值：复选框为是否选中，数字输入框为数字（为空时为null），多选下拉框为选中值数组
+const readValue = (el: PersistElement): unknown => {
+  if (el instanceof HTMLInputElement) {
+    if (el.type === "checkbox") return el.checked;
+    if (el.type === "number" || el.type === "range") {
+      return el.value === "" ? null : el.valueAsNumber;
+    }
+  }
+  if (el instanceof HTMLSelectElement && el.multiple) {
+    return Array.from(el.selectedOptions, (option) => option.value);
+  }
+  return el.value;
+};
+
+// 将表单数据写回元素（恢复草稿、撤销等程序修改）
+const writeValue = (el: PersistElement, value: unknown): void => {
+  if (el instanceof HTMLInputElement && el.type === "checkbox") {
+    el.checked = Boolean(value);
+  } else if (el instanceof HTMLInputElement && el.type === "radio") {
+    el.checked = value === el.value;
+  } else if (el instanceof HTMLSelectElement && el.multiple) {
+    const values = Array.isArray(value) ? value.map(String) : [];
+    Array.from(el.options).forEach((option) => {
+      option.selected = values.includes(option.value);
+    });
+  } else {
+    const text = value === null || value === undefined ? "" : String(value);
+    // 值未变化时不写入，避免输入时光标跳到末尾
+    if (el.value !== text) {
+      el.value = text;
+    }
+  }
+};
+
+// 字段名取指令参数，其次取元素的name属性
+const getFieldName = (el: PersistElement, arg?: string): string => {
+  const field = arg || el.name;
+  if (!field) {
+    throw new Error("v-persist需要指定字段名（指令参数或name属性）");
+  }
+  return field;
+};
+
+const bind = (
+  el: PersistElement,
+  formData: PersistDirectiveValue,
+  field: string
+): void => {
+  // 表单数据中没有该字段时，以元素的默认值作为初始值（单选框只取选中的一项）
+  if (formData[field] === undefined && (el.type !== "radio" || isChecked(el))) {
+    formData[field] = readValue(el);
+  }
+
+  const eventName =
+    isCheckable(el) || el instanceof HTMLSelectElement ? "change" : "input";
+  const handleEvent = () => {
+    if (el.type === "radio" && !isChecked(el)) return;
+    formData[field] = readValue(el);
+  };
+  el.addEventListener(eventName, handleEvent);
+
+  const stopWatch = watch(
+    () => formData[field],
+    (value) => writeValue(el, value),
+    { immediate: true, deep: true }
+  );
+  bindings.set(el, { eventName, handleEvent, stopWatch });
+};
+
+const unbind = (el: PersistElement): void => {
+  const binding = bindings.get(el);
+  if (!binding) return;
+  el.removeEventListener(binding.eventName, binding.handleEvent);
+  binding.stopWatch();
+  bindings.delete(el);
+};
+
+// v-persist：将非受控的输入框、文本域与下拉框绑定到表单数据
+// 用法：<input name="email" v-persist="formData" /> 或 <input v-persist:email="formData" />
+export const vPersist: ObjectDirective<PersistElement, PersistDirectiveValue> =
+  {
+    mounted(el, binding) {
+      bind(el, binding.value, getFieldName(el, binding.arg));
+    },
+    updated(el, binding) {
+      if (binding.value === binding.oldValue) return;
+      unbind(el);
+      bind(el, binding.value, getFieldName(el, binding.arg));
+    },
+    beforeUnmount(el) {
+      unbind(el);
+    },
+  };
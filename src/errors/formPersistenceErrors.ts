@@ -0,0 +1,43 @@
+// 解密失败：密钥缺失、密钥错误或数据被篡改
+export class DecryptionError extends Error {
+  name = "DecryptionError";
+}
+
+// 草稿数据结构版本无法识别或无法迁移
+export class SchemaVersionError extends Error {
+  name = "SchemaVersionError";
+  schemaVersion: number;
+
+  constructor(message: string, schemaVersion: number) {
+    super(message);
+    this.schemaVersion = schemaVersion;
+  }
+}
+
+// 存储空间不足：配额检查未通过，或写入时浏览器抛出配额错误且淘汰后仍无法写入
+export class StorageQuotaError extends Error {
+  name = "StorageQuotaError";
+}
+
+// 判断异常是否为浏览器的配额超限错误（含Firefox的旧错误名）
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof StorageQuotaError ||
+  (error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED"));
+
+// 远程同步请求失败，status为HTTP状态码（网络错误时不存在）
+export class RemoteSyncError extends Error {
+  name = "RemoteSyncError";
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// 导入草稿失败：导出文件格式无效、版本不支持或与当前表单不匹配
+export class DraftImportError extends Error {
+  name = "DraftImportError";
+}
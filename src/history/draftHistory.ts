@@ -0,0 +1,178 @@
+import type { StorageAdapter } from "../types/storageAdapterType";
+import type {
+  DraftHistoryEntry,
+  DraftHistoryState,
+  DraftSnapshot,
+} from "../types/draftHistoryType";
+import { createId } from "../utils/createId";
+
+// 草稿历史：有界的撤销/重做记录 + 命名快照，持久化到存储适配器的local作用域
+export class DraftHistory {
+  private entries: DraftHistoryEntry[] = [];
+  private index = -1;
+  private snapshots: DraftSnapshot[] = [];
+  private storageAdapter: StorageAdapter;
+  private key: string;
+  private limit: number;
+  private isExpired: (savedAt?: string) => boolean;
+  private schemaVersion: number;
+  private upgrade: (
+    entry: DraftHistoryEntry,
+    schemaVersion: number
+  ) => Record<string, unknown>;
+
+  constructor(
+    storageAdapter: StorageAdapter,
+    key: string,
+    limit: number,
+    isExpired: (savedAt?: string) => boolean,
+    schemaVersion: number,
+    upgrade: (
+      entry: DraftHistoryEntry,
+      schemaVersion: number
+    ) => Record<string, unknown>
+  ) {
+    this.storageAdapter = storageAdapter;
+    this.key = key;
+    this.limit = Math.max(1, limit);
+    this.isExpired = isExpired;
+    this.schemaVersion = schemaVersion;
+    this.upgrade = upgrade;
+  }
+
+  get canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  // 从存储中加载历史，丢弃已过期的记录；旧版本的记录按迁移表升级到当前版本
+  async load(): Promise<void> {
+    const text = await this.storageAdapter.getItem("local", this.key);
+    if (!text) return;
+
+    const state = JSON.parse(text) as DraftHistoryState;
+    const isUpgraded = state.schemaVersion !== this.schemaVersion;
+    if (isUpgraded) {
+      // 没有版本号的历史无法确定结构，无法升级（如版本高于当前版本）的历史同样直接清空
+      if (typeof state.schemaVersion !== "number") {
+        await this.clear();
+        return;
+      }
+      try {
+        const upgradeEntry = <E extends DraftHistoryEntry>(entry: E): E => ({
+          ...entry,
+          data: this.upgrade(entry, state.schemaVersion),
+        });
+        state.entries = state.entries.map(upgradeEntry);
+        state.snapshots = state.snapshots.map(upgradeEntry);
+      } catch {
+        await this.clear();
+        return;
+      }
+    }
+
+    const expiredCount = state.entries
+      .slice(0, state.index + 1)
+      .filter((entry) => this.isExpired(entry.savedAt)).length;
+
+    this.entries = state.entries.filter(
+      (entry) => !this.isExpired(entry.savedAt)
+    );
+    this.index = Math.min(
+      Math.max(state.index - expiredCount, this.entries.length ? 0 : -1),
+      this.entries.length - 1
+    );
+    this.snapshots = state.snapshots.filter(
+      (snapshot) => !this.isExpired(snapshot.savedAt)
+    );
+
+    if (
+      isUpgraded ||
+      this.entries.length !== state.entries.length ||
+      this.snapshots.length !== state.snapshots.length
+    ) {
+      await this.persist();
+    }
+  }
+
+  // 记录新的历史，与当前记录相同时忽略；会丢弃当前位置之后的重做记录
+  async push(data: Record<string, unknown>): Promise<void> {
+    const current = this.entries[this.index];
+    if (current && JSON.stringify(current.data) === JSON.stringify(data)) {
+      return;
+    }
+
+    this.entries = this.entries.slice(0, this.index + 1);
+    this.entries.push({ data, savedAt: new Date().toISOString() });
+    if (this.entries.length > this.limit) {
+      this.entries.splice(0, this.entries.length - this.limit);
+    }
+    this.index = this.entries.length - 1;
+
+    await this.persist();
+  }
+
+  // 撤销，返回上一条记录的数据
+  async undo(): Promise<Record<string, unknown> | null> {
+    if (!this.canUndo) return null;
+
+    this.index--;
+    await this.persist();
+    return this.entries[this.index]!.data;
+  }
+
+  // 重做，返回下一条记录的数据
+  async redo(): Promise<Record<string, unknown> | null> {
+    if (!this.canRedo) return null;
+
+    this.index++;
+    await this.persist();
+    return this.entries[this.index]!.data;
+  }
+
+  // 创建命名快照
+  async createSnapshot(
+    label: string,
+    data: Record<string, unknown>
+  ): Promise<DraftSnapshot> {
+    const snapshot: DraftSnapshot = {
+      id: createId(),
+      label,
+      data,
+      savedAt: new Date().toISOString(),
+    };
+    this.snapshots.push(snapshot);
+
+    await this.persist();
+    return snapshot;
+  }
+
+  getSnapshot(id: string): DraftSnapshot | undefined {
+    return this.snapshots.find((snapshot) => snapshot.id === id);
+  }
+
+  getSnapshots(): DraftSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  // 清空历史和快照
+  async clear(): Promise<void> {
+    this.entries = [];
+    this.index = -1;
+    this.snapshots = [];
+    await this.storageAdapter.removeItem("local", this.key);
+  }
+
+  private async persist(): Promise<void> {
+    const state: DraftHistoryState = {
+      schemaVersion: this.schemaVersion,
+      entries: this.entries,
+      index: this.index,
+      snapshots: this.snapshots,
+    };
+    await this.storageAdapter.setItem("local", this.key, JSON.stringify(state));
+  }
+}
@@ -1,22 +1,194 @@
 // 先导入useFormPersistence
 import { useFormPersistence } from './hooks/useFormPersistence';
+import { createFormPersistence } from './core/formPersistence';
+import PersistentForm from './components/PersistentForm.vue';
+import PersistentFileInput from './components/PersistentFileInput.vue';
+import { vPersist } from './directives/vPersist';
+import { FormPersistencePlugin } from './plugins/formPersistencePlugin';
+import {
+  createDefaultStorageAdapter,
+  createIndexedDBStorageAdapter,
+  createMemoryStorageAdapter
+} from './storage/storageAdapters';
+import { createEncryptedStorageAdapter } from './storage/encryptedStorageAdapter';
+import { sweepExpiredDrafts } from './storage/sweep';
+import { DraftManager } from './storage/draftManager';
+import {
+  DecryptionError,
+  SchemaVersionError,
+  StorageQuotaError,
+  RemoteSyncError,
+  DraftImportError
+} from './errors/formPersistenceErrors';
 // 重新导出
 import type {
   StoredFile,
   UploadProgress,
   UseFormPersistenceReturn,
   UseFormPersistenceOptions,
-  ErrorLevel
+  UseFormPersistenceState,
+  FormPersistenceActions,
+  ErrorLevel,
+  FileSaveMode,
+  SensitiveFieldMode,
+  RestoreMode,
+  DraftSource,
+  DraftFileSummary,
+  PendingDraft,
+  SubmitHandler,
+  DataTransformMiddleware,
+  FieldTransformConfig,
+  FieldPath
 } from './types/useFormPersistenceType';
+import type {
+  FormPersistence,
+  FormPersistenceState,
+  FormPersistenceListener
+} from './types/formPersistenceType';
+import type {
+  StorageAdapter,
+  StorageScope,
+  FileProgressCallback,
+  IndexedDBFileOptions,
+  MaybePromise
+} from './types/storageAdapterType';
+import type {
+  CrossTabSyncOptions,
+  TabSyncConflict,
+  TabSyncPolicy
+} from './types/tabSyncType';
+import type {
+  DraftHistoryOptions,
+  DraftSnapshot
+} from './types/draftHistoryType';
+import type { EncryptionOptions } from './types/encryptionType';
+import type {
+  PayloadEnvelope,
+  PayloadMigration,
+  PayloadMigrations,
+  UnknownSchemaVersionPolicy
+} from './types/payloadEnvelopeType';
+import type { EvictionPolicy, QuotaOptions } from './types/quotaType';
+import type { SweepOptions, SweepResult } from './types/sweepType';
+import type {
+  ServerBaseline,
+  FieldConflict,
+  ConflictResolution
+} from './types/baselineType';
+import type { RemoteDraft, RemoteSyncOptions } from './types/remoteSyncType';
+import type { TypeCodec, TypeCodecOptions } from './types/typeCodecType';
+import type {
+  PersistentFormProps,
+  PersistentFormSlotProps,
+  PersistentFileInputProps,
+  PersistentFileInputPreviewProps,
+  PersistDirectiveValue
+} from './types/componentType';
+import type {
+  FormPersistenceDefaults,
+  FormPersistencePluginOptions
+} from './types/pluginType';
+import type { DraftInfo, DraftManagerOptions } from './types/draftManagerType';
+import type { DraftArchive, DraftArchiveFile } from './types/draftArchiveType';
+import type {
+  FormPersistenceEvents,
+  FormPersistenceEventName,
+  FormPersistenceEventHandler,
+  SaveEvent,
+  RestoreEvent,
+  CrashDetectedEvent,
+  ExpireEvent,
+  FilesSavedEvent,
+  ClearEvent
+} from './types/formPersistenceEventType';
 
 // 命名导出
-export { useFormPersistence };
+export {
+  useFormPersistence,
+  createFormPersistence,
+  PersistentForm,
+  PersistentFileInput,
+  vPersist,
+  FormPersistencePlugin,
+  createDefaultStorageAdapter,
+  createIndexedDBStorageAdapter,
+  createMemoryStorageAdapter,
+  createEncryptedStorageAdapter,
+  sweepExpiredDrafts,
+  DraftManager,
+  DecryptionError,
+  SchemaVersionError,
+  StorageQuotaError,
+  RemoteSyncError,
+  DraftImportError
+};
 export type {
   StoredFile,
   UploadProgress,
   UseFormPersistenceReturn,
   UseFormPersistenceOptions,
-  ErrorLevel
+  UseFormPersistenceState,
+  FormPersistenceActions,
+  FormPersistence,
+  FormPersistenceState,
+  FormPersistenceListener,
+  ErrorLevel,
+  FileSaveMode,
+  SensitiveFieldMode,
+  RestoreMode,
+  DraftSource,
+  DraftFileSummary,
+  PendingDraft,
+  SubmitHandler,
+  DataTransformMiddleware,
+  FieldTransformConfig,
+  FieldPath,
+  StorageAdapter,
+  StorageScope,
+  FileProgressCallback,
+  IndexedDBFileOptions,
+  MaybePromise,
+  CrossTabSyncOptions,
+  TabSyncConflict,
+  TabSyncPolicy,
+  DraftHistoryOptions,
+  DraftSnapshot,
+  EncryptionOptions,
+  PayloadEnvelope,
+  PayloadMigration,
+  PayloadMigrations,
+  UnknownSchemaVersionPolicy,
+  EvictionPolicy,
+  QuotaOptions,
+  SweepOptions,
+  SweepResult,
+  ServerBaseline,
+  FieldConflict,
+  ConflictResolution,
+  RemoteDraft,
+  RemoteSyncOptions,
+  TypeCodec,
+  TypeCodecOptions,
+  PersistentFormProps,
+  PersistentFormSlotProps,
+  PersistentFileInputProps,
+  PersistentFileInputPreviewProps,
+  PersistDirectiveValue,
+  FormPersistenceDefaults,
+  FormPersistencePluginOptions,
+  DraftInfo,
+  DraftManagerOptions,
+  DraftArchive,
+  DraftArchiveFile,
+  FormPersistenceEvents,
+  FormPersistenceEventName,
+  FormPersistenceEventHandler,
+  SaveEvent,
+  RestoreEvent,
+  CrashDetectedEvent,
+  ExpireEvent,
+  FilesSavedEvent,
+  ClearEvent
 };
 
 // 默认导出
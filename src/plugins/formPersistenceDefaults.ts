@@ -0,0 +1,6 @@
+import type { InjectionKey } from "vue";
+import type { FormPersistenceDefaults } from "../types/pluginType";
+
+// FormPersistencePlugin提供的应用级默认选项
+export const FORM_PERSISTENCE_DEFAULTS_KEY: InjectionKey<FormPersistenceDefaults> =
+  Symbol("FormPersistenceDefaults");
@@ -0,0 +1,31 @@
+import type { Plugin } from "vue";
+import type { FormPersistencePluginOptions } from "../types/pluginType";
+import { FORM_PERSISTENCE_DEFAULTS_KEY } from "./formPersistenceDefaults";
+import PersistentForm from "../components/PersistentForm.vue";
+import PersistentFileInput from "../components/PersistentFileInput.vue";
+import { vPersist } from "../directives/vPersist";
+
+// 应用插件：app.use(FormPersistencePlugin, { errorLevel, dataExpiryMs, onError, ... })
+// 默认选项通过provide提供给应用内所有useFormPersistence调用，单次调用的选项优先
+export const FormPersistencePlugin: Plugin<[FormPersistencePluginOptions?]> = {
+  install(app, { registerComponents = true, ...defaults } = {}) {
+    app.provide(FORM_PERSISTENCE_DEFAULTS_KEY, defaults);
+
+    if (registerComponents) {
+      app.component("PersistentForm", PersistentForm);
+      app.component("PersistentFileInput", PersistentFileInput);
+      app.directive("persist", vPersist);
+    }
+  },
+};
+
+// 全局注册的组件与指令的模板类型
+declare module "vue" {
+  export interface GlobalComponents {
+    PersistentForm: typeof PersistentForm;
+    PersistentFileInput: typeof PersistentFileInput;
+  }
+  export interface GlobalDirectives {
+    vPersist: typeof vPersist;
+  }
+}
@@ -0,0 +1,37 @@
+// React入口：React Hook、框架无关的核心与草稿管理器
+import { useFormPersistence } from './react/useFormPersistence';
+import { createFormPersistence } from './core/formPersistence';
+import { DraftManager } from './storage/draftManager';
+// 重新导出
+import type {
+  FormPersistence,
+  FormPersistenceState,
+  FormPersistenceListener,
+  ReactFormPersistenceReturn
+} from './types/formPersistenceType';
+import type {
+  UseFormPersistenceOptions,
+  FormPersistenceActions
+} from './types/useFormPersistenceType';
+import type { DraftInfo, DraftManagerOptions } from './types/draftManagerType';
+import type {
+  FormPersistenceEvents,
+  FormPersistenceEventName,
+  FormPersistenceEventHandler
+} from './types/formPersistenceEventType';
+
+// 命名导出
+export { useFormPersistence, createFormPersistence, DraftManager };
+export type {
+  FormPersistence,
+  FormPersistenceState,
+  FormPersistenceListener,
+  ReactFormPersistenceReturn,
+  UseFormPersistenceOptions,
+  FormPersistenceActions,
+  DraftInfo,
+  DraftManagerOptions,
+  FormPersistenceEvents,
+  FormPersistenceEventName,
+  FormPersistenceEventHandler
+};
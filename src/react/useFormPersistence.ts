@@ -0,0 +1,37 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import type { UseFormPersistenceOptions } from "../types/useFormPersistenceType";
+import type { ReactFormPersistenceReturn } from "../types/formPersistenceType";
+import { createFormPersistence } from "../core/formPersistence";
+
+// React Hook：实例只在首次渲染时创建（之后传入的参数不再生效），挂载时启动，卸载时停止
+export function useFormPersistence<T extends object>(
+  formId: string,
+  initialFormData: T,
+  options: UseFormPersistenceOptions<NoInfer<T>>
+): ReactFormPersistenceReturn<T> {
+  const [persistence] = useState(() =>
+    createFormPersistence(formId, initialFormData, options)
+  );
+
+  useEffect(() => {
+    persistence.start();
+    return persistence.stop;
+  }, [persistence]);
+
+  // 服务端渲染时使用初始数据的快照，挂载后才恢复草稿
+  const state = useSyncExternalStore(
+    persistence.subscribe,
+    persistence.getState,
+    persistence.getState
+  );
+
+  const {
+    state: reactiveState,
+    start,
+    stop,
+    getState,
+    subscribe,
+    ...actions
+  } = persistence;
+  return { ...state, ...actions };
+}
@@ -0,0 +1,198 @@
+import type { StorageAdapter } from "../types/storageAdapterType";
+import type { PayloadEnvelope } from "../types/payloadEnvelopeType";
+import type { StoredFile } from "../types/useFormPersistenceType";
+import type { DraftInfo, DraftManagerOptions } from "../types/draftManagerType";
+import {
+  DEFAULT_DATA_EXPIRY_MS,
+  getDraftKeys,
+  isDraftExpired,
+  parseDraftKey,
+  removeStoredDraft,
+  STORAGE_PREFIX,
+} from "./drafts";
+import { createDefaultStorageAdapter } from "./storageAdapters";
+import { createEncryptedStorageAdapter } from "./encryptedStorageAdapter";
+import { parseEnvelope } from "../utils/payloadEnvelope";
+import { createDraftArchive } from "../utils/draftArchive";
+
+const textEncoder = new TextEncoder();
+
+// 草稿管理器：在表单组件之外列出、查看、导出与删除所有表单的草稿（如“我的草稿”页面）
+// 删除正在编辑的表单的草稿后，该表单下次保存时会重新写入
+export class DraftManager {
+  private storageAdapter: StorageAdapter;
+  private keyPrefix: string;
+  private dataExpiryMs: number;
+
+  constructor({
+    dbName,
+    storageAdapter = createDefaultStorageAdapter({ dbName }),
+    keyPrefix = STORAGE_PREFIX,
+    dataExpiryMs = DEFAULT_DATA_EXPIRY_MS,
+    encryption,
+  }: DraftManagerOptions = {}) {
+    this.storageAdapter = encryption
+      ? createEncryptedStorageAdapter(storageAdapter, encryption)
+      : storageAdapter;
+    this.keyPrefix = keyPrefix;
+    this.dataExpiryMs = dataExpiryMs;
+  }
+
+  // 列出所有草稿，按保存时间从新到旧排列
+  async list(): Promise<DraftInfo[]> {
+    const formIds = await this.getDraftFormIds();
+    const fileCounts = await this.countFiles();
+
+    const drafts: DraftInfo[] = [];
+    for (const formId of formIds) {
+      const info = await this.readInfo(formId, fileCounts[formId] ?? 0);
+      if (info) {
+        drafts.push(info);
+      }
+    }
+    return drafts.sort((a, b) =>
+      (b.savedAt ?? "").localeCompare(a.savedAt ?? "")
+    );
+  }
+
+  // 获取单个表单的草稿，不存在时返回null
+  async get(formId: string): Promise<DraftInfo | null> {
+    const fileCounts = await this.countFiles();
+    return this.readInfo(formId, fileCounts[formId] ?? 0);
+  }
+
+  // 导出表单的草稿与文件内容，格式与exportDraft相同，可由表单的importDraft导入；草稿不存在时返回null
+  // 存储适配器只能按字段读取文件，需传入表单的文件字段（与fileFields选项相同）
+  async export(
+    formId: string,
+    fileFields: string[] = []
+  ): Promise<Blob | null> {
+    await this.storageAdapter.init?.();
+    const { storageKey } = getDraftKeys(formId, this.keyPrefix);
+    const text = await this.storageAdapter.getItem("local", storageKey);
+    if (text === null) return null;
+
+    const files: Record<string, StoredFile[]> = {};
+    for (const fieldName of fileFields) {
+      files[fieldName] = await this.storageAdapter.listFiles(formId, fieldName);
+    }
+    const archive = await createDraftArchive(
+      formId,
+      parseEnvelope(text, formId),
+      files
+    );
+    return new Blob([JSON.stringify(archive)], { type: "application/json" });
+  }
+
+  // 删除表单的草稿、会话草稿、正常关闭标记、历史记录与文件
+  async delete(formId: string): Promise<void> {
+    await this.storageAdapter.init?.();
+    await removeStoredDraft(this.storageAdapter, formId, this.keyPrefix);
+  }
+
+  // 删除当前前缀下的所有草稿数据与文件，返回涉及的表单ID
+  async clearAll(): Promise<string[]> {
+    const formIds = new Set<string>();
+    for (const scope of ["local", "session"] as const) {
+      const keys = await this.getKeys(scope);
+      const localKeys = scope === "local" ? new Set(keys) : undefined;
+      for (const key of keys) {
+        const parsedKey = parseDraftKey(key, this.keyPrefix, localKeys);
+        if (!parsedKey) continue;
+
+        await this.storageAdapter.removeItem(scope, key);
+        formIds.add(parsedKey.formId);
+      }
+    }
+
+    // 文件不区分前缀，数据库中的文件都属于当前前缀的表单（参见sweepExpiredDrafts）
+    Object.keys(await this.countFiles()).forEach((formId) =>
+      formIds.add(formId)
+    );
+    for (const formId of formIds) {
+      await this.storageAdapter.deleteFiles(formId);
+    }
+    return Array.from(formIds);
+  }
+
+  private async getKeys(scope: "local" | "session"): Promise<string[]> {
+    if (!this.storageAdapter.keys) {
+      throw new Error("存储适配器不支持列出存储键，无法管理草稿");
+    }
+    await this.storageAdapter.init?.();
+    return this.storageAdapter.keys(scope);
+  }
+
+  // 长期存储中有草稿的表单
+  private async getDraftFormIds(): Promise<string[]> {
+    const formIds: string[] = [];
+    const localKeys = new Set(await this.getKeys("local"));
+    for (const key of localKeys) {
+      const parsedKey = parseDraftKey(key, this.keyPrefix, localKeys);
+      if (parsedKey?.kind === "draft") {
+        formIds.push(parsedKey.formId);
+      }
+    }
+    return formIds;
+  }
+
+  private async countFiles(): Promise<Record<string, number>> {
+    await this.storageAdapter.init?.();
+    return (await this.storageAdapter.countFiles?.()) ?? {};
+  }
+
+  // 读取草稿概要
+  private async readInfo(
+    formId: string,
+    fileCount: number
+  ): Promise<DraftInfo | null> {
+    await this.storageAdapter.init?.();
+    const { storageKey, historyKey } = getDraftKeys(formId, this.keyPrefix);
+
+    let text: string | null;
+    let historyText: string | null;
+    try {
+      text = await this.storageAdapter.getItem("local", storageKey);
+      historyText = await this.storageAdapter.getItem("local", historyKey);
+    } catch {
+      // 无法解密的草稿仍然列出，便于删除
+      return this.createInfo(formId, null, 0, fileCount);
+    }
+    if (text === null) return null;
+
+    let envelope: PayloadEnvelope | null = null;
+    try {
+      envelope = parseEnvelope(text, formId);
+    } catch {
+      // 无法解析的草稿记为不可读
+    }
+
+    const size =
+      textEncoder.encode(text).length +
+      textEncoder.encode(historyText ?? "").length;
+    return this.createInfo(formId, envelope, size, fileCount);
+  }
+
+  private createInfo(
+    formId: string,
+    envelope: PayloadEnvelope | null,
+    size: number,
+    fileCount: number
+  ): DraftInfo {
+    const savedAt = envelope?.savedAt;
+    return {
+      formId,
+      savedAt,
+      expiresAt: savedAt
+        ? new Date(
+            new Date(savedAt).getTime() + this.dataExpiryMs
+          ).toISOString()
+        : undefined,
+      expired: isDraftExpired(savedAt, this.dataExpiryMs),
+      schemaVersion: envelope?.schemaVersion,
+      size,
+      fileCount,
+      readable: envelope !== null,
+    };
+  }
+}
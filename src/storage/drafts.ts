@@ -0,0 +1,111 @@
+import type { StorageAdapter } from "../types/storageAdapterType";
+import type { StoredDraftInfo } from "../types/quotaType";
+import type { DraftKeyKind } from "../types/sweepType";
+import { parseEnvelope } from "../utils/payloadEnvelope";
+
+// 存储键前缀
+export const STORAGE_PREFIX = "form_persistence_";
+
+// 附属键后缀：会话草稿、正常关闭标记、历史记录、跨标签页同步
+const SESSION_KEY_SUFFIX = "_session";
+const NORMAL_CLOSE_KEY_SUFFIX = "_normal_close";
+const HISTORY_KEY_SUFFIX = "_history";
+const SYNC_KEY_SUFFIX = "_sync";
+const DRAFT_KEY_SUFFIXES: Record<Exclude<DraftKeyKind, "draft">, string> = {
+  session: SESSION_KEY_SUFFIX,
+  normalClose: NORMAL_CLOSE_KEY_SUFFIX,
+  history: HISTORY_KEY_SUFFIX,
+  sync: SYNC_KEY_SUFFIX,
+};
+
+// 默认过期时间：24小时
+export const DEFAULT_DATA_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// 判断草稿是否过期，没有保存时间的草稿视为未过期
+export const isDraftExpired = (
+  savedAt: string | undefined,
+  dataExpiryMs: number
+): boolean => {
+  if (!savedAt) return false;
+
+  return Date.now() - new Date(savedAt).getTime() > dataExpiryMs;
+};
+
+// 表单草稿使用的全部存储键
+export const getDraftKeys = (formId: string, prefix = STORAGE_PREFIX) => {
+  const storageKey = `${prefix}${formId}`;
+  return {
+    storageKey,
+    sessionKey: `${storageKey}${SESSION_KEY_SUFFIX}`,
+    normalCloseKey: `${storageKey}${NORMAL_CLOSE_KEY_SUFFIX}`,
+    historyKey: `${storageKey}${HISTORY_KEY_SUFFIX}`,
+    syncKey: `${storageKey}${SYNC_KEY_SUFFIX}`,
+  };
+};
+
+// 解析存储键对应的表单与用途，不属于草稿的键返回null
+// 表单ID本身可能以附属键后缀结尾（如user_session），解析长期存储的键时应传入其中的全部键，
+// 只有对应表单的草稿键存在时才视为附属键，否则视为以该后缀结尾的表单的草稿；会话存储中没有草稿，无需传入
+export const parseDraftKey = (
+  key: string,
+  prefix = STORAGE_PREFIX,
+  localKeys?: ReadonlySet<string>
+): { formId: string; kind: DraftKeyKind } | null => {
+  if (!key.startsWith(prefix)) return null;
+
+  const name = key.slice(prefix.length);
+  for (const [kind, suffix] of Object.entries(DRAFT_KEY_SUFFIXES)) {
+    const formId = name.slice(0, -suffix.length);
+    if (
+      name.endsWith(suffix) &&
+      (!localKeys || localKeys.has(`${prefix}${formId}`))
+    ) {
+      return { formId, kind: kind as DraftKeyKind };
+    }
+  }
+  return { formId: name, kind: "draft" };
+};
+
+// 列出长期存储中的草稿，无法读取的草稿（如使用其他密钥加密）记为无保存时间
+export async function listStoredDrafts(
+  adapter: StorageAdapter,
+  prefix = STORAGE_PREFIX
+): Promise<StoredDraftInfo[]> {
+  if (!adapter.keys) return [];
+
+  const drafts: StoredDraftInfo[] = [];
+  const localKeys = new Set(await adapter.keys("local"));
+  for (const key of localKeys) {
+    const parsedKey = parseDraftKey(key, prefix, localKeys);
+    if (parsedKey?.kind !== "draft") continue;
+
+    const { formId } = parsedKey;
+    try {
+      const text = await adapter.getItem("local", key);
+      if (text === null) continue;
+      drafts.push({ formId, savedAt: parseEnvelope(text, formId).savedAt });
+    } catch {
+      drafts.push({ formId });
+    }
+  }
+  return drafts;
+}
+
+// 删除表单的草稿、历史记录与文件
+export async function removeStoredDraft(
+  adapter: StorageAdapter,
+  formId: string,
+  prefix = STORAGE_PREFIX
+): Promise<void> {
+  const { storageKey, sessionKey, normalCloseKey, historyKey } = getDraftKeys(
+    formId,
+    prefix
+  );
+  await Promise.all([
+    adapter.removeItem("local", storageKey),
+    adapter.removeItem("local", normalCloseKey),
+    adapter.removeItem("local", historyKey),
+    adapter.removeItem("session", sessionKey),
+    adapter.deleteFiles(formId),
+  ]);
+}
@@ -0,0 +1,266 @@
+import type { StoredFile } from "../types/useFormPersistenceType";
+import type { FileSource, StorageAdapter } from "../types/storageAdapterType";
+import type { EncryptionOptions } from "../types/encryptionType";
+import { DecryptionError } from "../errors/formPersistenceErrors";
+import { fromBase64, toBase64 } from "../utils/base64";
+
+// 加密文本前缀，用于区分未加密的旧数据
+const ENCRYPTED_TEXT_PREFIX = "fp-enc:v1:";
+// 加密文件头：魔数(4字节) + 分段大小(4字节) + 原始修改时间(8字节)
+const ENCRYPTED_FILE_MAGIC = "FPE1";
+const ENCRYPTED_FILE_HEADER_SIZE = 16;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const DEFAULT_SEGMENT_SIZE = 1024 * 1024;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// 将底层异常统一包装为解密错误
+const toDecryptionError = (error: unknown): DecryptionError =>
+  error instanceof DecryptionError
+    ? error
+    : new DecryptionError(
+        `解密失败，密钥错误或数据已损坏: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+
+// 判断文本是否为加密数据
+export const isEncryptedText = (text: string): boolean =>
+  text.startsWith(ENCRYPTED_TEXT_PREFIX);
+
+// 为存储适配器添加AES-GCM加密：文本与文件在写入前加密，读取后解密
+// 未加密的旧数据可以正常读取，下次保存时会被加密
+// 注意：加密后的大文件不支持中断续传，再次保存同一文件时会删除上次中断残留的记录
+export function createEncryptedStorageAdapter(
+  adapter: StorageAdapter,
+  { getKey, segmentSize = DEFAULT_SEGMENT_SIZE }: EncryptionOptions
+): StorageAdapter {
+  const requireKey = async (): Promise<CryptoKey> => {
+    const key = await getKey();
+    if (!key) {
+      throw new DecryptionError("未提供加密密钥");
+    }
+    return key;
+  };
+
+  const encryptText = async (text: string): Promise<string> => {
+    const key = await requireKey();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+    const cipher = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      textEncoder.encode(text)
+    );
+    return `${ENCRYPTED_TEXT_PREFIX}${toBase64(iv)}.${toBase64(
+      new Uint8Array(cipher)
+    )}`;
+  };
+
+  const decryptText = async (text: string): Promise<string> => {
+    try {
+      const key = await requireKey();
+      const [iv, cipher] = text.slice(ENCRYPTED_TEXT_PREFIX.length).split(".");
+      if (!iv || !cipher) {
+        throw new DecryptionError("加密数据格式无效");
+      }
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(iv) },
+        key,
+        fromBase64(cipher)
+      );
+      return textDecoder.decode(plain);
+    } catch (error) {
+      throw toDecryptionError(error);
+    }
+  };
+
+  // 分段加密的文件来源：文件头之后每段为IV + 密文（含认证标签），每段使用独立的IV
+  // 按读取范围逐段加密，只缓存跨越分块边界的段，避免整个密文同时驻留内存
+  const createEncryptedSource = async (file: File): Promise<FileSource> => {
+    const key = await requireKey();
+    const header = new DataView(new ArrayBuffer(ENCRYPTED_FILE_HEADER_SIZE));
+    textEncoder
+      .encode(ENCRYPTED_FILE_MAGIC)
+      .forEach((byte, i) => header.setUint8(i, byte));
+    header.setUint32(4, segmentSize);
+    header.setFloat64(8, file.lastModified);
+    const headerBytes = new Uint8Array(header.buffer);
+
+    const segmentCount = Math.ceil(file.size / segmentSize);
+    const encryptedSegmentSize = IV_SIZE + segmentSize + TAG_SIZE;
+    const segments = new Map<number, Uint8Array>();
+
+    const encryptSegment = async (index: number): Promise<Uint8Array> => {
+      let segment = segments.get(index);
+      if (!segment) {
+        const plain = await file
+          .slice(index * segmentSize, (index + 1) * segmentSize)
+          .arrayBuffer();
+        const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+        const cipher = await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv },
+          key,
+          plain
+        );
+        segment = new Uint8Array(IV_SIZE + cipher.byteLength);
+        segment.set(iv);
+        segment.set(new Uint8Array(cipher), IV_SIZE);
+        segments.set(index, segment);
+      }
+      return segment;
+    };
+
+    return {
+      name: file.name,
+      type: file.type,
+      size:
+        ENCRYPTED_FILE_HEADER_SIZE +
+        file.size +
+        segmentCount * (IV_SIZE + TAG_SIZE),
+      lastModified: file.lastModified,
+      // 每次加密的IV不同，已写入的分块无法与新的密文拼接
+      resumable: false,
+      async read(start, end) {
+        const parts: BlobPart[] = [];
+        if (start < ENCRYPTED_FILE_HEADER_SIZE) {
+          parts.push(headerBytes.slice(start, end));
+        }
+
+        const first = Math.max(
+          0,
+          Math.floor(
+            (start - ENCRYPTED_FILE_HEADER_SIZE) / encryptedSegmentSize
+          )
+        );
+        const last = Math.min(
+          segmentCount - 1,
+          Math.floor(
+            (end - 1 - ENCRYPTED_FILE_HEADER_SIZE) / encryptedSegmentSize
+          )
+        );
+        // 分块按顺序读取，之前的段不会再被读取
+        segments.forEach((_, index) => {
+          if (index < first) segments.delete(index);
+        });
+
+        for (let index = first; index <= last; index++) {
+          const segmentStart =
+            ENCRYPTED_FILE_HEADER_SIZE + index * encryptedSegmentSize;
+          const segment = await encryptSegment(index);
+          parts.push(
+            segment.slice(
+              Math.max(start - segmentStart, 0),
+              Math.max(end - segmentStart, 0)
+            )
+          );
+        }
+        return new Blob(parts);
+      },
+    };
+  };
+
+  // 适配器不支持按需读取时，先加密整个文件
+  const encryptFile = async (source: FileSource): Promise<File> =>
+    // 每次加密结果不同，使用当前时间作为修改时间，避免与未完成的分块保存混用
+    new File([await source.read(0, source.size)], source.name, {
+      type: source.type,
+      lastModified: Date.now(),
+    });
+
+  const decryptFile = async (storedFile: StoredFile): Promise<StoredFile> => {
+    const blob =
+      storedFile.data instanceof Blob
+        ? storedFile.data
+        : new Blob([storedFile.data]);
+    const header = new DataView(
+      await blob.slice(0, ENCRYPTED_FILE_HEADER_SIZE).arrayBuffer()
+    );
+    const magic =
+      header.byteLength === ENCRYPTED_FILE_HEADER_SIZE
+        ? textDecoder.decode(header.buffer.slice(0, 4))
+        : "";
+    // 未加密的旧文件原样返回
+    if (magic !== ENCRYPTED_FILE_MAGIC) {
+      return storedFile;
+    }
+
+    try {
+      const key = await requireKey();
+      const encryptedSegmentSize = IV_SIZE + header.getUint32(4) + TAG_SIZE;
+      const parts: ArrayBuffer[] = [];
+      for (
+        let offset = ENCRYPTED_FILE_HEADER_SIZE;
+        offset < blob.size;
+        offset += encryptedSegmentSize
+      ) {
+        const segment = await blob
+          .slice(offset, offset + encryptedSegmentSize)
+          .arrayBuffer();
+        parts.push(
+          await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: segment.slice(0, IV_SIZE) },
+            key,
+            segment.slice(IV_SIZE)
+          )
+        );
+      }
+
+      const data = new Blob(parts, { type: storedFile.fileType });
+      return {
+        ...storedFile,
+        data,
+        fileSize: data.size,
+        lastModified: header.getFloat64(8),
+      };
+    } catch (error) {
+      throw toDecryptionError(error);
+    }
+  };
+
+  return {
+    ...adapter,
+    // 文件只能通过putFile加密写入，不暴露底层适配器的未加密写入
+    putFileSource: undefined,
+
+    async getItem(scope, key) {
+      const value = await adapter.getItem(scope, key);
+      return value !== null && isEncryptedText(value)
+        ? decryptText(value)
+        : value;
+    },
+
+    async setItem(scope, key, value) {
+      await adapter.setItem(scope, key, await encryptText(value));
+    },
+
+    async putFile(file, formId, fieldName, onProgress) {
+      const source = await createEncryptedSource(file);
+      // 按原始文件大小折算进度
+      const handleProgress =
+        onProgress &&
+        ((loaded: number, total: number) =>
+          onProgress(Math.round((loaded / total) * file.size), file.size));
+      const storedFile = adapter.putFileSource
+        ? await adapter.putFileSource(source, formId, fieldName, handleProgress)
+        : await adapter.putFile(
+            await encryptFile(source),
+            formId,
+            fieldName,
+            handleProgress
+          );
+      return {
+        ...storedFile,
+        data: file,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+      };
+    },
+
+    async listFiles(formId, fieldName) {
+      const files = await adapter.listFiles(formId, fieldName);
+      return Promise.all(files.map(decryptFile));
+    },
+  };
+}
@@ -0,0 +1,631 @@
+import type { StoredFile } from "../types/useFormPersistenceType";
+import type { FileSource } from "../types/storageAdapterType";
+import {
+  isQuotaExceededError,
+  StorageQuotaError,
+} from "../errors/formPersistenceErrors";
+
+// 存储常量
+export const DB_NAME = "FormPersistenceDB";
+export const DB_VERSION = 4;
+export const DB_STORE_NAME = "form_files";
+// 文本数据存储（供纯IndexedDB适配器使用）
+export const DB_TEXT_STORE_NAME = "form_text";
+// 大文件分块存储
+export const DB_CHUNK_STORE_NAME = "form_file_chunks";
+// 文件索引：按表单查询、按表单+字段查询
+export const DB_INDEX_FORM_ID = "formId";
+export const DB_INDEX_FORM_FIELD = "formId_fieldName";
+// 默认分块大小（4MB），超过该大小的文件分块存储
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// 数据库中的文件记录：分块存储的文件只保存元数据，数据在分块存储中
+type StoredFileRecord = Omit<StoredFile, "data" | "fileId"> & {
+  fileId?: number;
+  data?: ArrayBuffer | Blob;
+};
+
+// 文件分块记录
+interface FileChunk {
+  fileId: number;
+  index: number;
+  data: ArrayBuffer | Blob;
+}
+
+// 文件排序：有排序位置的按位置，其余按保存顺序排在最后
+export const compareFileOrder = (a: StoredFile, b: StoredFile): number =>
+  (a.order ?? Infinity) - (b.order ?? Infinity) || a.fileId - b.fileId;
+
+// 以File作为文件来源（可以续传）
+const toFileSource = (file: File): FileSource => ({
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  lastModified: file.lastModified,
+  read: async (start, end) => file.slice(start, end),
+  resumable: true,
+});
+
+// 指定文件所有分块的键范围
+const chunkRange = (fileId: number): IDBKeyRange =>
+  IDBKeyRange.bound([fileId, 0], [fileId, Infinity]);
+
+// 包装写入失败：配额超限转为StorageQuotaError，其余保留原始信息
+const toWriteError = (message: string, error: DOMException | null): Error =>
+  isQuotaExceededError(error)
+    ? new StorageQuotaError(`存储空间不足: ${error?.message}`)
+    : new Error(`${message}: ${error?.message}`);
+
+// 数据库迁移函数
+type DBMigration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// 版本迁移表：键为目标版本号，升级时从旧版本开始依次执行
+const DB_MIGRATIONS: Record<number, DBMigration> = {
+  // v1: 创建文件存储
+  1: (db) => {
+    db.createObjectStore(DB_STORE_NAME, {
+      keyPath: "fileId",
+      autoIncrement: true,
+    });
+  },
+  // v2: 创建文本存储
+  2: (db) => {
+    db.createObjectStore(DB_TEXT_STORE_NAME);
+  },
+  // v3: 为文件存储添加formId索引和[formId, fieldName]复合索引
+  3: (_db, transaction) => {
+    const store = transaction.objectStore(DB_STORE_NAME);
+    store.createIndex(DB_INDEX_FORM_ID, "formId", { unique: false });
+    store.createIndex(DB_INDEX_FORM_FIELD, ["formId", "fieldName"], {
+      unique: false,
+    });
+  },
+  // v4: 创建文件分块存储，主键为[fileId, index]
+  4: (db) => {
+    db.createObjectStore(DB_CHUNK_STORE_NAME, {
+      keyPath: ["fileId", "index"],
+    });
+  },
+};
+
+// IndexedDB工具类（带类型约束）
+export class FileStorage {
+  private db: IDBDatabase | null = null;
+  private isInitialized = false;
+  // IndexedDB是否支持直接存储Blob（首次分块保存时检测）
+  private blobSupported: boolean | null = null;
+
+  private dbName: string;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  async init(): Promise<void> {
+    if (this.isInitialized) {
+      return; // 避免重复初始化
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = (e: IDBVersionChangeEvent) => {
+          try {
+            const db = request.result;
+            const transaction = request.transaction!;
+            // 依次执行从旧版本到当前版本之间的所有迁移
+            for (
+              let version = e.oldVersion + 1;
+              version <= DB_VERSION;
+              version++
+            ) {
+              DB_MIGRATIONS[version]?.(db, transaction);
+            }
+          } catch (error) {
+            reject(
+              new Error(
+                `数据库升级失败: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              )
+            );
+          }
+        };
+
+        request.onsuccess = (e: Event) => {
+          this.db = (e.target as IDBOpenDBRequest).result;
+          this.isInitialized = true;
+          resolve();
+        };
+
+        request.onerror = (e: Event) => {
+          const dbError = (e.target as IDBOpenDBRequest).error;
+          reject(
+            new Error(`数据库初始化失败: ${dbError?.message || "未知错误"}`)
+          );
+        };
+      } catch (error) {
+        reject(
+          new Error(
+            `IndexedDB操作失败: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        );
+      }
+    });
+  }
+
+  async saveFile(
+    file: File,
+    formId: string,
+    fieldName: string,
+    onProgress?: (loaded: number, total: number) => void,
+    chunkSize: number = DEFAULT_CHUNK_SIZE
+  ): Promise<StoredFile> {
+    const db = this.db;
+    if (!db) {
+      throw new Error("数据库未初始化");
+    }
+
+    // 大文件分块存储，避免一次性读入内存
+    if (file.size > chunkSize) {
+      const storedFile = await this.saveChunkedFile(
+        toFileSource(file),
+        formId,
+        fieldName,
+        chunkSize,
+        onProgress
+      );
+      return { ...storedFile, data: file };
+    }
+
+    // 1. 读取文件为 ArrayBuffer（包装为 Promise，确保同步完成）
+    const fileDataBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const result = e.target?.result;
+        if (result instanceof ArrayBuffer) {
+          resolve(result);
+        } else {
+          reject(new Error("文件读取结果不是 ArrayBuffer"));
+        }
+      };
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(file);
+    });
+
+    // 2. 读取完成后，再开启事务执行 add 操作（确保事务在同步代码中）
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(DB_STORE_NAME, "readwrite", {
+        durability: "relaxed",
+      });
+      const store = transaction.objectStore(DB_STORE_NAME);
+
+      // 事务错误处理（配额超限时事务会被中止）
+      transaction.onerror = transaction.onabort = () => {
+        reject(toWriteError("事务错误", transaction.error));
+      };
+
+      // 构建文件数据
+      const fileData: Omit<StoredFile, "fileId"> = {
+        formId,
+        fieldName,
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+        data: fileDataBuffer, // 使用已读取的 buffer
+        savedTime: new Date().toISOString(),
+      };
+
+      // 执行添加操作
+      const addRequest = store.add(fileData as StoredFile);
+      addRequest.onsuccess = () => {
+        transaction.oncomplete = () => {
+          // 写入完成后再报告进度
+          if (onProgress) {
+            onProgress(file.size, file.size);
+          }
+          // 直接返回已存储的记录，无需再次查询
+          resolve({ ...fileData, fileId: addRequest.result as number });
+        };
+      };
+      addRequest.onerror = () => {
+        reject(toWriteError("添加文件失败", addRequest.error));
+      };
+    });
+  }
+
+  // 保存按需读取内容的文件来源：大文件逐块读取并分块存储，小文件读取后整体存储
+  async saveFileSource(
+    source: FileSource,
+    formId: string,
+    fieldName: string,
+    onProgress?: (loaded: number, total: number) => void,
+    chunkSize: number = DEFAULT_CHUNK_SIZE
+  ): Promise<Omit<StoredFile, "data">> {
+    if (source.size > chunkSize) {
+      return this.saveChunkedFile(
+        source,
+        formId,
+        fieldName,
+        chunkSize,
+        onProgress
+      );
+    }
+
+    const file = new File([await source.read(0, source.size)], source.name, {
+      type: source.type,
+      lastModified: source.lastModified,
+    });
+    const { data: _data, ...storedFile } = await this.saveFile(
+      file,
+      formId,
+      fieldName,
+      onProgress,
+      chunkSize
+    );
+    return storedFile;
+  }
+
+  // 分块保存大文件：先写入未完成的元数据，再逐块写入，全部完成后标记为完成
+  // 中途中断时，再次保存同一文件会从已写入的分块之后继续；无法续传的来源会先删除上次残留的记录
+  private async saveChunkedFile(
+    file: FileSource,
+    formId: string,
+    fieldName: string,
+    chunkSize: number,
+    onProgress?: (loaded: number, total: number) => void
+  ): Promise<Omit<StoredFile, "data">> {
+    const useBlob = await this.isBlobSupported();
+    const chunkCount = Math.ceil(file.size / chunkSize);
+
+    let pending = await this.findPendingFile(
+      file,
+      formId,
+      fieldName,
+      chunkSize
+    );
+    if (pending && !file.resumable) {
+      await this.deleteFiles([pending.fileId!]);
+      pending = undefined;
+    }
+    const record: StoredFileRecord = pending ?? {
+      formId,
+      fieldName,
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      lastModified: file.lastModified,
+      savedTime: new Date().toISOString(),
+      chunkSize,
+      chunkCount,
+      complete: false,
+    };
+    const fileId = pending
+      ? pending.fileId!
+      : ((await this.putRecord(DB_STORE_NAME, record)) as number);
+    record.fileId = fileId;
+
+    // 分块按顺序写入，已写入的数量即为下一个分块的序号
+    const startIndex = pending ? await this.countChunks(fileId) : 0;
+    if (onProgress && startIndex > 0) {
+      onProgress(Math.min(startIndex * chunkSize, file.size), file.size);
+    }
+
+    for (let index = startIndex; index < chunkCount; index++) {
+      const slice = await file.read(index * chunkSize, (index + 1) * chunkSize);
+      const chunk: FileChunk = {
+        fileId,
+        index,
+        data: useBlob ? slice : await slice.arrayBuffer(),
+      };
+      // 每个分块单独提交事务，页面中断时已写入的分块不会丢失
+      await this.putRecord(DB_CHUNK_STORE_NAME, chunk);
+
+      if (onProgress) {
+        onProgress(Math.min((index + 1) * chunkSize, file.size), file.size);
+      }
+    }
+
+    record.complete = true;
+    record.savedTime = new Date().toISOString();
+    await this.putRecord(DB_STORE_NAME, record);
+
+    const { data: _data, ...storedFile } = record;
+    return { ...storedFile, fileId };
+  }
+
+  // 查找同一文件未完成的分块保存记录
+  private async findPendingFile(
+    file: FileSource,
+    formId: string,
+    fieldName: string,
+    chunkSize: number
+  ): Promise<StoredFileRecord | undefined> {
+    const records = await new Promise<StoredFileRecord[]>((resolve, reject) => {
+      const request = this.db!.transaction(DB_STORE_NAME, "readonly")
+        .objectStore(DB_STORE_NAME)
+        .index(DB_INDEX_FORM_FIELD)
+        .getAll(IDBKeyRange.only([formId, fieldName]));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return records.find(
+      (record) =>
+        record.complete === false &&
+        record.chunkSize === chunkSize &&
+        record.fileName === file.name &&
+        record.fileSize === file.size &&
+        record.lastModified === file.lastModified
+    );
+  }
+
+  // 统计文件已写入的分块数量
+  private countChunks(fileId: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction(DB_CHUNK_STORE_NAME, "readonly")
+        .objectStore(DB_CHUNK_STORE_NAME)
+        .count(chunkRange(fileId));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 在独立事务中写入一条记录，事务提交后返回主键
+  private putRecord(storeName: string, value: unknown): Promise<IDBValidKey> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeName, "readwrite");
+      const request = transaction.objectStore(storeName).put(value);
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = transaction.onabort = () =>
+        reject(toWriteError("写入数据失败", transaction.error));
+    });
+  }
+
+  // 检测IndexedDB是否支持直接存储Blob，不支持时分块以ArrayBuffer存储
+  private async isBlobSupported(): Promise<boolean> {
+    if (this.blobSupported !== null) {
+      return this.blobSupported;
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          DB_CHUNK_STORE_NAME,
+          "readwrite"
+        );
+        const store = transaction.objectStore(DB_CHUNK_STORE_NAME);
+        store.put({ fileId: -1, index: 0, data: new Blob(["blob"]) });
+        store.delete([-1, 0]);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+      this.blobSupported = true;
+    } catch {
+      this.blobSupported = false;
+    }
+
+    return this.blobSupported;
+  }
+
+  async getFiles(formId: string, fieldName: string): Promise<StoredFile[]> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [DB_STORE_NAME, DB_CHUNK_STORE_NAME],
+        "readonly"
+      );
+      const index = transaction
+        .objectStore(DB_STORE_NAME)
+        .index(DB_INDEX_FORM_FIELD);
+      const chunkStore = transaction.objectStore(DB_CHUNK_STORE_NAME);
+      const files: StoredFile[] = [];
+      const request = index.getAll(IDBKeyRange.only([formId, fieldName]));
+
+      request.onsuccess = () => {
+        (request.result as StoredFileRecord[])
+          // 跳过未完成的分块保存
+          .filter((record) => record.complete !== false)
+          .forEach((record) => {
+            const file = record as StoredFile;
+            files.push(file);
+            if (!record.chunkCount) return;
+
+            // 分块文件组装为Blob
+            const chunkRequest = chunkStore.getAll(chunkRange(file.fileId));
+            chunkRequest.onsuccess = () => {
+              file.data = new Blob(
+                (chunkRequest.result as FileChunk[]).map((chunk) => chunk.data),
+                { type: file.fileType }
+              );
+            };
+          });
+      };
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve(files.sort(compareFileOrder));
+      transaction.onerror = () =>
+        reject(new Error(`读取文件失败: ${transaction.error?.message}`));
+    });
+  }
+
+  // 删除表单文件（包括分块），传入fieldName时只删除该字段已完成的文件
+  // 未完成的分块保存会被保留以便续传，删除整个表单时一并清除
+  async clearFiles(formId: string, fieldName?: string): Promise<void> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [DB_STORE_NAME, DB_CHUNK_STORE_NAME],
+        "readwrite"
+      );
+      const store = transaction.objectStore(DB_STORE_NAME);
+      const chunkStore = transaction.objectStore(DB_CHUNK_STORE_NAME);
+      const cursorRequest =
+        fieldName === undefined
+          ? store.index(DB_INDEX_FORM_ID).openCursor(IDBKeyRange.only(formId))
+          : store
+              .index(DB_INDEX_FORM_FIELD)
+              .openCursor(IDBKeyRange.only([formId, fieldName]));
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const record = cursor.value as StoredFileRecord;
+          if (fieldName === undefined || record.complete !== false) {
+            store.delete(cursor.primaryKey);
+            chunkStore.delete(chunkRange(cursor.primaryKey as number));
+          }
+          cursor.continue();
+        }
+      };
+
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`删除文件失败: ${transaction.error?.message}`));
+    });
+  }
+
+  // 统计各表单的文件记录数量（含未完成的分块保存），键为formId
+  async countFilesByForm(): Promise<Record<string, number>> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_STORE_NAME, "readonly");
+      const cursorRequest = transaction
+        .objectStore(DB_STORE_NAME)
+        .index(DB_INDEX_FORM_ID)
+        .openKeyCursor();
+      const counts: Record<string, number> = {};
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const formId = String(cursor.key);
+          counts[formId] = (counts[formId] ?? 0) + 1;
+          cursor.continue();
+        } else {
+          resolve(counts);
+        }
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  }
+
+  // 按文件ID批量删除（包括分块）
+  async deleteFiles(fileIds: number[]): Promise<void> {
+    if (!this.db) throw new Error("数据库未初始化");
+    if (fileIds.length === 0) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [DB_STORE_NAME, DB_CHUNK_STORE_NAME],
+        "readwrite"
+      );
+      const store = transaction.objectStore(DB_STORE_NAME);
+      const chunkStore = transaction.objectStore(DB_CHUNK_STORE_NAME);
+
+      fileIds.forEach((fileId) => {
+        store.delete(fileId);
+        chunkStore.delete(chunkRange(fileId));
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`删除文件失败: ${transaction.error?.message}`));
+    });
+  }
+
+  // 按fileIds的顺序更新文件的排序位置
+  async updateFileOrder(fileIds: number[]): Promise<void> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_STORE_NAME, "readwrite");
+      const store = transaction.objectStore(DB_STORE_NAME);
+
+      fileIds.forEach((fileId, order) => {
+        const request = store.get(fileId);
+        request.onsuccess = () => {
+          if (request.result) {
+            store.put({ ...request.result, order });
+          }
+        };
+      });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`更新文件顺序失败: ${transaction.error?.message}`));
+    });
+  }
+
+  // 读取文本数据
+  async getText(key: string): Promise<string | null> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_TEXT_STORE_NAME, "readonly");
+      const request = transaction.objectStore(DB_TEXT_STORE_NAME).get(key);
+      request.onsuccess = () =>
+        resolve(typeof request.result === "string" ? request.result : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 列出所有文本数据的键
+  async getTextKeys(): Promise<string[]> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_TEXT_STORE_NAME, "readonly");
+      const request = transaction.objectStore(DB_TEXT_STORE_NAME).getAllKeys();
+      request.onsuccess = () => resolve(request.result.map(String));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 写入文本数据
+  async setText(key: string, value: string): Promise<void> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_TEXT_STORE_NAME, "readwrite");
+      transaction.objectStore(DB_TEXT_STORE_NAME).put(value, key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = transaction.onabort = () =>
+        reject(toWriteError("写入文本数据失败", transaction.error));
+    });
+  }
+
+  // 删除文本数据
+  async removeText(key: string): Promise<void> {
+    if (!this.db) throw new Error("数据库未初始化");
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(DB_TEXT_STORE_NAME, "readwrite");
+      transaction.objectStore(DB_TEXT_STORE_NAME).delete(key);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`删除文本数据失败: ${transaction.error?.message}`));
+    });
+  }
+}
+
+// 按数据库名缓存的文件存储实例，同一数据库只打开一次
+const fileStorages = new Map<string, FileStorage>();
+
+export const getFileStorage = (dbName: string = DB_NAME): FileStorage => {
+  let storage = fileStorages.get(dbName);
+  if (!storage) {
+    storage = new FileStorage(dbName);
+    fileStorages.set(dbName, storage);
+  }
+  return storage;
+};
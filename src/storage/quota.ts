@@ -0,0 +1,86 @@
+import type { StorageAdapter } from "../types/storageAdapterType";
+import type { EvictionPolicy, EvictionResult } from "../types/quotaType";
+import { listStoredDrafts, removeStoredDraft } from "./drafts";
+
+// 淘汰选项
+interface EvictDraftsOptions {
+  policy: EvictionPolicy;
+  excludeFormId: string; // 当前表单，不参与淘汰
+  prefix: string;
+  isExpired: (savedAt?: string) => boolean;
+  hasEnoughSpace: () => Promise<boolean>; // 每淘汰一批后检查空间是否已足够
+}
+
+// 查询存储用量，浏览器不支持时返回null
+export async function estimateStorage(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota } = await navigator.storage.estimate();
+  return quota === undefined ? null : { usage, quota };
+}
+
+// 请求持久化存储，浏览器不支持或拒绝时返回false
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) {
+    return false;
+  }
+
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+}
+
+// 按淘汰策略清理其他表单的草稿：先清理全部过期草稿，oldest策略下再从最旧的草稿开始逐个清理
+export async function evictDrafts(
+  adapter: StorageAdapter,
+  {
+    policy,
+    excludeFormId,
+    prefix,
+    isExpired,
+    hasEnoughSpace,
+  }: EvictDraftsOptions
+): Promise<EvictionResult> {
+  const evicted: string[] = [];
+  if (policy === "none") {
+    return { evicted, satisfied: false };
+  }
+
+  const drafts = (await listStoredDrafts(adapter, prefix)).filter(
+    (draft) => draft.formId !== excludeFormId
+  );
+
+  const expiredDrafts = drafts.filter((draft) => isExpired(draft.savedAt));
+  for (const draft of expiredDrafts) {
+    await removeStoredDraft(adapter, draft.formId, prefix);
+    evicted.push(draft.formId);
+  }
+  if (await hasEnoughSpace()) {
+    return { evicted, satisfied: true };
+  }
+
+  if (policy === "oldest") {
+    // 无法读取保存时间的草稿排在最后，尽量不清理
+    const remainingDrafts = drafts
+      .filter((draft) => !evicted.includes(draft.formId))
+      .sort(
+        (a, b) =>
+          (a.savedAt ? Date.parse(a.savedAt) : Infinity) -
+            (b.savedAt ? Date.parse(b.savedAt) : Infinity) || 0
+      );
+
+    for (const draft of remainingDrafts) {
+      await removeStoredDraft(adapter, draft.formId, prefix);
+      evicted.push(draft.formId);
+      if (await hasEnoughSpace()) {
+        return { evicted, satisfied: true };
+      }
+    }
+  }
+
+  return { evicted, satisfied: false };
+}
@@ -0,0 +1,208 @@
+import type { StoredFile } from "../types/useFormPersistenceType";
+import type {
+  IndexedDBFileOptions,
+  StorageAdapter,
+  StorageScope,
+} from "../types/storageAdapterType";
+import {
+  compareFileOrder,
+  DEFAULT_CHUNK_SIZE,
+  getFileStorage,
+  type FileStorage,
+} from "./fileStorage";
+
+// 获取Web Storage实例
+const getWebStorage = (scope: StorageScope): Storage =>
+  scope === "session" ? sessionStorage : localStorage;
+
+// 基于IndexedDB的文件存取（默认适配器与纯IndexedDB适配器共用）
+const createIndexedDBFileMethods = (
+  fileStorage: FileStorage,
+  { chunkSize = DEFAULT_CHUNK_SIZE }: IndexedDBFileOptions
+): Pick<
+  StorageAdapter,
+  | "putFile"
+  | "putFileSource"
+  | "listFiles"
+  | "deleteFiles"
+  | "countFiles"
+  | "removeFiles"
+  | "reorderFiles"
+> => ({
+  putFile(file, formId, fieldName, onProgress) {
+    return fileStorage.saveFile(file, formId, fieldName, onProgress, chunkSize);
+  },
+
+  putFileSource(source, formId, fieldName, onProgress) {
+    return fileStorage.saveFileSource(
+      source,
+      formId,
+      fieldName,
+      onProgress,
+      chunkSize
+    );
+  },
+
+  listFiles(formId, fieldName) {
+    return fileStorage.getFiles(formId, fieldName);
+  },
+
+  async deleteFiles(formId, fieldName) {
+    try {
+      await fileStorage.clearFiles(formId, fieldName);
+    } catch (error) {
+      throw new Error(
+        `删除旧文件失败: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  },
+
+  countFiles() {
+    return fileStorage.countFilesByForm();
+  },
+
+  removeFiles(fileIds) {
+    return fileStorage.deleteFiles(fileIds);
+  },
+
+  reorderFiles(_formId, _fieldName, fileIds) {
+    return fileStorage.updateFileOrder(fileIds);
+  },
+});
+
+// 默认适配器：文本存入sessionStorage/localStorage，文件存入IndexedDB
+export function createDefaultStorageAdapter(
+  options: IndexedDBFileOptions = {}
+): StorageAdapter {
+  const fileStorage = getFileStorage(options.dbName);
+
+  return {
+    init: () => fileStorage.init(),
+    getItem: (scope, key) => getWebStorage(scope).getItem(key),
+    setItem: (scope, key, value) => getWebStorage(scope).setItem(key, value),
+    removeItem: (scope, key) => getWebStorage(scope).removeItem(key),
+    keys: (scope) => {
+      const storage = getWebStorage(scope);
+      return Array.from({ length: storage.length }, (_, i) => storage.key(i)!);
+    },
+    ...createIndexedDBFileMethods(fileStorage, options),
+  };
+}
+
+// 纯IndexedDB适配器：长期文本与文件均存入IndexedDB
+// session作用域无法用IndexedDB模拟“关闭即清除”，因此仅保存在内存中
+export function createIndexedDBStorageAdapter(
+  options: IndexedDBFileOptions = {}
+): StorageAdapter {
+  const fileStorage = getFileStorage(options.dbName);
+  const sessionItems = new Map<string, string>();
+
+  return {
+    init: () => fileStorage.init(),
+    getItem: (scope, key) =>
+      scope === "session"
+        ? sessionItems.get(key) ?? null
+        : fileStorage.getText(key),
+    setItem: (scope, key, value) => {
+      if (scope === "session") {
+        sessionItems.set(key, value);
+        return;
+      }
+      return fileStorage.setText(key, value);
+    },
+    removeItem: (scope, key) => {
+      if (scope === "session") {
+        sessionItems.delete(key);
+        return;
+      }
+      return fileStorage.removeText(key);
+    },
+    keys: (scope) =>
+      scope === "session"
+        ? Array.from(sessionItems.keys())
+        : fileStorage.getTextKeys(),
+    ...createIndexedDBFileMethods(fileStorage, options),
+  };
+}
+
+// 内存适配器：所有数据保存在内存中，适用于测试或无需持久化的场景
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const items: Record<StorageScope, Map<string, string>> = {
+    session: new Map(),
+    local: new Map(),
+  };
+  const files = new Map<number, StoredFile>();
+  let nextFileId = 1;
+
+  return {
+    getItem: (scope, key) => items[scope].get(key) ?? null,
+    setItem: (scope, key, value) => {
+      items[scope].set(key, value);
+    },
+    removeItem: (scope, key) => {
+      items[scope].delete(key);
+    },
+    keys: (scope) => Array.from(items[scope].keys()),
+
+    async putFile(file, formId, fieldName, onProgress) {
+      const data = await file.arrayBuffer();
+      onProgress?.(file.size, file.size);
+
+      const storedFile: StoredFile = {
+        fileId: nextFileId++,
+        formId,
+        fieldName,
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+        data,
+        savedTime: new Date().toISOString(),
+      };
+      files.set(storedFile.fileId, storedFile);
+      return storedFile;
+    },
+
+    async listFiles(formId, fieldName) {
+      return Array.from(files.values())
+        .filter(
+          (file) => file.formId === formId && file.fieldName === fieldName
+        )
+        .sort(compareFileOrder);
+    },
+
+    async deleteFiles(formId, fieldName) {
+      files.forEach((file, fileId) => {
+        if (
+          file.formId === formId &&
+          (fieldName === undefined || file.fieldName === fieldName)
+        ) {
+          files.delete(fileId);
+        }
+      });
+    },
+
+    async countFiles() {
+      const counts: Record<string, number> = {};
+      files.forEach(({ formId }) => {
+        counts[formId] = (counts[formId] ?? 0) + 1;
+      });
+      return counts;
+    },
+
+    async removeFiles(fileIds) {
+      fileIds.forEach((fileId) => files.delete(fileId));
+    },
+
+    async reorderFiles(_formId, _fieldName, fileIds) {
+      fileIds.forEach((fileId, order) => {
+        const file = files.get(fileId);
+        if (file) {
+          files.set(fileId, { ...file, order });
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import type { SweepOptions, SweepResult } from "../types/sweepType";
+import {
+  DEFAULT_DATA_EXPIRY_MS,
+  isDraftExpired,
+  listStoredDrafts,
+  parseDraftKey,
+  STORAGE_PREFIX,
+} from "./drafts";
+import { createDefaultStorageAdapter } from "./storageAdapters";
+
+// 清理所有表单的过期草稿与孤立数据：
+// 1. 过期草稿连同会话草稿、正常关闭标记、历史记录和文件一并删除
+// 2. 长期草稿已不存在的附属数据和文件视为孤立数据删除
+// 文件数据库由默认适配器与纯IndexedDB适配器共用，应使用与表单相同的适配器清理，否则对方的文件会被视为孤立数据
+// 文件不区分存储键前缀，使用不同前缀的应用也应使用不同的数据库，并在清理时传入相同的dbName
+export async function sweepExpiredDrafts({
+  dbName,
+  storageAdapter = createDefaultStorageAdapter({ dbName }),
+  dataExpiryMs = DEFAULT_DATA_EXPIRY_MS,
+  excludeFormIds = [],
+  keyPrefix = STORAGE_PREFIX,
+}: SweepOptions = {}): Promise<SweepResult> {
+  const result: SweepResult = {
+    expiredFormIds: [],
+    orphanedFormIds: [],
+    removedKeys: [],
+    removedFileCount: 0,
+  };
+  // 无法列出存储键时无法判断草稿是否存在，不做清理
+  if (!storageAdapter.keys) return result;
+
+  await storageAdapter.init?.();
+
+  // 区分过期草稿与仍然有效的草稿，无法读取保存时间的草稿视为有效
+  const excludedFormIds = new Set(excludeFormIds);
+  const liveFormIds = new Set<string>();
+  const expiredFormIds = new Set<string>();
+  for (const { formId, savedAt } of await listStoredDrafts(
+    storageAdapter,
+    keyPrefix
+  )) {
+    if (excludedFormIds.has(formId) || !isDraftExpired(savedAt, dataExpiryMs)) {
+      liveFormIds.add(formId);
+    } else {
+      expiredFormIds.add(formId);
+    }
+  }
+
+  const isRemovable = (formId: string): boolean =>
+    !excludedFormIds.has(formId) && !liveFormIds.has(formId);
+  const orphanedFormIds = new Set<string>();
+  const recordRemoval = (formId: string): void => {
+    if (!expiredFormIds.has(formId)) {
+      orphanedFormIds.add(formId);
+    }
+  };
+
+  // 删除过期或孤立的存储键，同步键只在广播时短暂存在，不做清理
+  for (const scope of ["local", "session"] as const) {
+    const keys = await storageAdapter.keys(scope);
+    const localKeys = scope === "local" ? new Set(keys) : undefined;
+    for (const key of keys) {
+      const parsedKey = parseDraftKey(key, keyPrefix, localKeys);
+      if (
+        !parsedKey ||
+        parsedKey.kind === "sync" ||
+        !isRemovable(parsedKey.formId)
+      ) {
+        continue;
+      }
+
+      await storageAdapter.removeItem(scope, key);
+      result.removedKeys.push(key);
+      recordRemoval(parsedKey.formId);
+    }
+  }
+
+  // 删除过期或孤立的文件（含未完成的分块保存）
+  const fileCounts = (await storageAdapter.countFiles?.()) ?? {};
+  for (const [formId, count] of Object.entries(fileCounts)) {
+    if (!isRemovable(formId)) continue;
+
+    await storageAdapter.deleteFiles(formId);
+    result.removedFileCount += count;
+    recordRemoval(formId);
+  }
+
+  result.expiredFormIds = Array.from(expiredFormIds);
+  result.orphanedFormIds = Array.from(orphanedFormIds);
+  return result;
+}
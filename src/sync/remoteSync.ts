@@ -0,0 +1,227 @@
+import type { RemoteDraft, RemoteSyncOptions } from "../types/remoteSyncType";
+import { RemoteSyncError } from "../errors/formPersistenceErrors";
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60 * 1000;
+const DEFAULT_PULL_TIMEOUT_MS = 5000;
+// keepalive请求的请求体上限（浏览器限制为64KB）
+const KEEPALIVE_BODY_LIMIT = 64 * 1024;
+
+const textEncoder = new TextEncoder();
+
+// 待发送的远程操作，只保留最新的一个（新的推送或删除会覆盖尚未发送的操作）
+type RemoteSyncOperation =
+  | { type: "push"; draft: RemoteDraft }
+  | { type: "delete" };
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// 校验拉取到的远程草稿：信封须属于当前表单，并带有版本号、有效的保存时间和草稿数据
+const isRemoteDraft = (
+  value: unknown,
+  formId: string
+): value is RemoteDraft => {
+  if (!isRecord(value) || !isRecord(value.envelope)) return false;
+
+  const { envelope } = value;
+  return (
+    envelope.formId === formId &&
+    typeof envelope.schemaVersion === "number" &&
+    typeof envelope.savedAt === "string" &&
+    !Number.isNaN(Date.parse(envelope.savedAt)) &&
+    isRecord(envelope.data)
+  );
+};
+
+// 远程同步：推送与删除在离线或失败时排队，按指数退避重试，恢复联网后立即重试
+export class RemoteSync {
+  private formId: string;
+  private url: string;
+  private options: RemoteSyncOptions;
+  private onError: (error: Error) => void;
+  private pending: RemoteSyncOperation | null = null;
+  private sending = false;
+  private retryDelay: number;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    formId: string,
+    options: RemoteSyncOptions,
+    onError: (error: Error) => void
+  ) {
+    this.formId = formId;
+    this.url = `${options.endpoint.replace(/\/$/, "")}/${encodeURIComponent(
+      formId
+    )}`;
+    this.options = options;
+    this.onError = onError;
+    this.retryDelay = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  // 开始监听联网事件
+  start(): void {
+    window.addEventListener("online", this.handleOnline);
+  }
+
+  // 停止监听并取消等待中的重试，未发送的操作保留在队列中
+  stop(): void {
+    window.removeEventListener("online", this.handleOnline);
+    this.clearRetryTimer();
+  }
+
+  // 推送草稿
+  push(draft: RemoteDraft): void {
+    this.enqueue({ type: "push", draft });
+  }
+
+  // 删除远程草稿
+  remove(): void {
+    this.enqueue({ type: "delete" });
+  }
+
+  // 拉取远程草稿，不存在时返回null；超时后中止请求并抛出错误，恢复流程不会一直等待
+  // 草稿格式无效时抛出错误，不会写入本地存储
+  async pull(): Promise<RemoteDraft | null> {
+    const timeoutMs = this.options.pullTimeoutMs ?? DEFAULT_PULL_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // 自定义fetch可能不响应中止信号，因此同时以超时结束等待
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new RemoteSyncError(`拉取远程草稿超时（${timeoutMs}ms）`));
+      }, timeoutMs);
+    });
+
+    try {
+      const response = await Promise.race([
+        this.request("GET", undefined, controller.signal),
+        timeout,
+      ]);
+      if (response.status === 404) return null;
+
+      const draft: unknown = await Promise.race([response.json(), timeout]);
+      if (!isRemoteDraft(draft, this.formId)) {
+        throw new RemoteSyncError("远程草稿格式无效或不属于当前表单");
+      }
+      return draft;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private handleOnline = (): void => {
+    this.clearRetryTimer();
+    this.flush();
+  };
+
+  private enqueue(operation: RemoteSyncOperation): void {
+    this.pending = operation;
+    this.flush();
+  }
+
+  // 发送队列中的操作，离线时等待online事件
+  private async flush(): Promise<void> {
+    if (this.sending || this.retryTimer || !this.pending) return;
+    if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+
+    const operation = this.pending;
+    this.sending = true;
+    try {
+      await this.send(operation);
+      if (this.pending === operation) {
+        this.pending = null;
+      }
+      this.retryDelay = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    } catch (error) {
+      const syncError =
+        error instanceof RemoteSyncError
+          ? error
+          : new RemoteSyncError(
+              `网络请求失败: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+      this.onError(syncError);
+
+      if (this.isRetryable(syncError)) {
+        this.scheduleRetry();
+      } else if (this.pending === operation) {
+        // 请求本身有误（如4xx），重试也不会成功，丢弃该操作
+        this.pending = null;
+      }
+    } finally {
+      this.sending = false;
+    }
+
+    // 发送期间又有新的操作入队
+    if (this.pending && !this.retryTimer) {
+      this.flush();
+    }
+  }
+
+  private send(operation: RemoteSyncOperation): Promise<Response> {
+    return operation.type === "push"
+      ? this.request("PUT", JSON.stringify(operation.draft))
+      : this.request("DELETE");
+  }
+
+  private async request(
+    method: string,
+    body?: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const fetchFn = this.options.fetch ?? fetch;
+    const response = await fetchFn(this.url, {
+      method,
+      body,
+      signal,
+      headers: {
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+        ...this.options.headers,
+      },
+      // 页面关闭时仍能完成推送，超过上限的请求体无法使用keepalive
+      keepalive:
+        method !== "GET" &&
+        textEncoder.encode(body ?? "").length < KEEPALIVE_BODY_LIMIT,
+    });
+
+    if (!response.ok && !(method !== "PUT" && response.status === 404)) {
+      throw new RemoteSyncError(
+        `远程同步失败: ${method} ${response.status}`,
+        response.status
+      );
+    }
+    return response;
+  }
+
+  // 网络错误、超时、限流和服务端错误可以重试
+  private isRetryable(error: RemoteSyncError): boolean {
+    return (
+      error.status === undefined ||
+      error.status === 408 ||
+      error.status === 429 ||
+      error.status >= 500
+    );
+  }
+
+  private scheduleRetry(): void {
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(
+      delay * 2,
+      this.options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS
+    );
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import type { TabSyncMessage } from "../types/tabSyncType";
+
+// 跨标签页通信通道
+export interface TabSyncChannel {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+}
+
+// 创建跨标签页通信通道：优先使用BroadcastChannel，不支持时退化为storage事件
+export function createTabSyncChannel(
+  name: string,
+  onMessage: (message: TabSyncMessage) => void
+): TabSyncChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e: MessageEvent<TabSyncMessage>) => onMessage(e.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== name || !e.newValue) return;
+    try {
+      onMessage(
+        (JSON.parse(e.newValue) as { message: TabSyncMessage }).message
+      );
+    } catch {
+      // 忽略无法解析的消息
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post: (message) => {
+      // 写入后立即删除，仅用于触发其他标签页的storage事件
+      localStorage.setItem(
+        name,
+        JSON.stringify({ message, nonce: Math.random() })
+      );
+      localStorage.removeItem(name);
+    },
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
@@ -0,0 +1,16 @@
+// 服务器基线：开始编辑时服务器上的记录版本与数据
+export interface ServerBaseline {
+  version: string; // 版本号或数据哈希
+  data: Record<string, any>;
+}
+
+// 字段冲突：草稿与服务器在基线之后都修改了同一字段
+export interface FieldConflict {
+  field: string;
+  base: unknown; // 草稿所基于的基线值，基线未知时为undefined
+  local: unknown; // 草稿中的值（冲突解决前表单保留该值）
+  server: unknown; // 服务器当前的值
+}
+
+// 冲突解决方式：local保留草稿的值，server采用服务器的值，或指定合并后的值
+export type ConflictResolution = "local" | "server" | { value: unknown };
@@ -0,0 +1,41 @@
+import type { UnwrapNestedRefs } from "vue";
+import type {
+  FileSaveMode,
+  StoredFile,
+  SubmitHandler,
+  UseFormPersistenceOptions,
+  UseFormPersistenceReturn,
+} from "./useFormPersistenceType";
+
+// PersistentForm组件属性（实例在创建时初始化，之后修改formId、initial与options不会生效）
+export interface PersistentFormProps<T> {
+  formId: string;
+  initial: T;
+  fileFields?: string[];
+  options?: Omit<UseFormPersistenceOptions<T>, "fileFields">;
+  // 表单提交时调用，成功后清除草稿，失败时保留草稿
+  submitHandler?: SubmitHandler<T>;
+}
+
+// PersistentForm插槽属性：Hook状态（ref已解包）与全部操作
+export type PersistentFormSlotProps<T> = UnwrapNestedRefs<
+  UseFormPersistenceReturn<T>
+>;
+
+// PersistentFileInput组件属性，其他属性（accept、multiple等）透传给文件输入框
+export interface PersistentFileInputProps {
+  field: string; // 文件字段名，需包含在fileFields中
+  mode?: FileSaveMode; // 文件保存模式，默认replace
+  // 表单持久化实例，在PersistentForm内部使用时可以省略
+  form?: UseFormPersistenceReturn<any>;
+}
+
+// PersistentFileInput预览插槽属性
+export interface PersistentFileInputPreviewProps {
+  files: StoredFile[];
+  getUrl: (file: StoredFile) => string; // 文件的Blob URL，组件卸载时释放
+  remove: (fileId: number) => Promise<void>;
+}
+
+// v-persist指令绑定值：表单数据对象，字段名取指令参数或元素的name属性
+export type PersistDirectiveValue = Record<string, any>;
@@ -0,0 +1,20 @@
+import type { PayloadEnvelope } from "./payloadEnvelopeType";
+
+// 导出文件中的文件记录，data为Base64编码的文件内容
+export interface DraftArchiveFile {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  lastModified: number;
+  data: string;
+}
+
+// 草稿导出文件：自描述的JSON信封，包含表单草稿与全部文件内容，可在其他设备导入
+export interface DraftArchive {
+  format: "form-persistence-draft";
+  version: number; // 导出格式版本
+  formId: string;
+  exportedAt: string;
+  draft: PayloadEnvelope; // 与长期存储相同的草稿（不含敏感字段）
+  files: Record<string, DraftArchiveFile[]>; // 键为文件字段名
+}
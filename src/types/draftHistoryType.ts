@@ -0,0 +1,24 @@
+// 草稿历史选项
+export interface DraftHistoryOptions {
+  limit?: number; // 最多保留的历史记录数量，默认20
+}
+
+// 历史记录项（保存的是经过保存前转换的表单数据）
+export interface DraftHistoryEntry {
+  data: Record<string, unknown>;
+  savedAt: string;
+}
+
+// 命名快照
+export interface DraftSnapshot extends DraftHistoryEntry {
+  id: string;
+  label: string;
+}
+
+// 持久化的历史状态
+export interface DraftHistoryState {
+  schemaVersion: number; // 记录数据的结构版本，与草稿的schemaVersion一致
+  entries: DraftHistoryEntry[];
+  index: number; // 当前所在的历史记录位置
+  snapshots: DraftSnapshot[];
+}
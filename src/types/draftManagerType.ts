@@ -0,0 +1,23 @@
+import type { StorageAdapter } from "./storageAdapterType";
+import type { EncryptionOptions } from "./encryptionType";
+
+// 草稿管理器选项，需与表单使用的存储配置一致
+export interface DraftManagerOptions {
+  storageAdapter?: StorageAdapter; // 存储适配器，默认与useFormPersistence相同
+  dbName?: string; // IndexedDB数据库名，只用于未指定storageAdapter时创建的默认适配器
+  keyPrefix?: string; // 存储键前缀，默认form_persistence_
+  dataExpiryMs?: number; // 草稿过期时间，默认24小时
+  encryption?: EncryptionOptions; // 草稿加密时需提供相同的密钥才能读取保存时间
+}
+
+// 草稿概要
+export interface DraftInfo {
+  formId: string;
+  savedAt?: string; // 保存时间，无法读取时为空
+  expiresAt?: string; // 过期时间
+  expired: boolean;
+  schemaVersion?: number;
+  size: number; // 草稿与草稿历史的文本大小（字节，不含文件）
+  fileCount: number; // 已保存的文件数量
+  readable: boolean; // 草稿能否解析（使用其他密钥加密或数据损坏时为false）
+}
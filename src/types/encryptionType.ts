@@ -0,0 +1,9 @@
+import type { MaybePromise } from "./storageAdapterType";
+
+// 加密选项（AES-GCM）
+export interface EncryptionOptions {
+  // 密钥提供函数，返回AES-GCM密钥；返回空值时视为缺少密钥
+  getKey: () => MaybePromise<CryptoKey | null | undefined>;
+  // 文件加密分段大小（字节），默认1MB
+  segmentSize?: number;
+}
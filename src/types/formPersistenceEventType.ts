@@ -0,0 +1,63 @@
+import type { StorageScope } from "./storageAdapterType";
+import type {
+  DraftFileSummary,
+  DraftSource,
+  FileSaveMode,
+  StoredFile,
+} from "./useFormPersistenceType";
+
+// 草稿已写入存储
+export interface SaveEvent {
+  savedAt: string;
+}
+
+// 草稿已应用到表单，source为草稿来源
+export interface RestoreEvent<T> {
+  source: DraftSource;
+  savedAt?: string;
+  data: Partial<T>;
+  files: Record<string, DraftFileSummary[]>; // 键为文件字段名
+}
+
+// 检测到上次非正常关闭，recovered表示是否从长期存储读取到草稿
+export interface CrashDetectedEvent {
+  recovered: boolean;
+  savedAt?: string;
+}
+
+// 草稿已过期并被删除
+export interface ExpireEvent {
+  scope: StorageScope;
+  savedAt: string;
+}
+
+// 文件已保存：写入存储，或被排除、敏感的文件字段只保存在内存中
+export interface FilesSavedEvent {
+  fieldName: string;
+  files: StoredFile[]; // 本次保存的文件
+  mode: FileSaveMode; // replaceFile替换单个文件时为replace
+  persisted: boolean; // 是否写入了存储，为false时文件只在内存中，刷新页面后丢失
+}
+
+// 存储已清除：clear为调用clearStorage（含提交成功、重置与放弃草稿），close为正常关闭后清除
+export interface ClearEvent {
+  reason: "clear" | "close";
+}
+
+// 生命周期事件表：键为事件名，值为事件数据
+export interface FormPersistenceEvents<T> {
+  save: SaveEvent;
+  restore: RestoreEvent<T>;
+  crashDetected: CrashDetectedEvent;
+  expire: ExpireEvent;
+  filesSaved: FilesSavedEvent;
+  clear: ClearEvent;
+}
+
+export type FormPersistenceEventName = keyof FormPersistenceEvents<unknown>;
+
+// 事件监听函数
+export type FormPersistenceEventHandler<
+  T,
+  K extends FormPersistenceEventName
+> = (event: FormPersistenceEvents<T>[K]) => void;
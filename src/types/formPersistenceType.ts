@@ -0,0 +1,60 @@
+import type { DraftSnapshot } from "./draftHistoryType";
+import type { FieldConflict } from "./baselineType";
+import type {
+  FormPersistenceActions,
+  PendingDraft,
+  StoredFile,
+  UploadProgress,
+  UseFormPersistenceState,
+} from "./useFormPersistenceType";
+
+// 表单持久化状态快照（普通对象，每次变化生成新的快照）
+export interface FormPersistenceState<T> {
+  formData: T;
+  fileData: Record<string, StoredFile[]>;
+  ready: boolean;
+  isRestoring: boolean;
+  hasUnsavedChanges: boolean;
+  uploadProgress: UploadProgress | null;
+  error: string | null;
+  isLockedByOtherTab: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  snapshots: DraftSnapshot[];
+  pendingDraft: PendingDraft<T> | null;
+  conflicts: FieldConflict[];
+  isSubmitting: boolean;
+  lastSubmitError: Error | null;
+  isDirty: boolean;
+  dirtyFields: string[];
+  touchedFields: string[];
+}
+
+// 状态变化监听函数
+export type FormPersistenceListener<T> = (
+  state: FormPersistenceState<T>
+) => void;
+
+// 与框架无关的表单持久化实例
+export interface FormPersistence<T> extends FormPersistenceActions<T> {
+  // 初始化存储并恢复草稿，开始自动保存与页面关闭检测；stop后可以再次调用
+  // 服务端不执行，应在客户端挂载后调用
+  start: () => Promise<void>;
+  // 停止自动保存并移除事件监听，已保存的草稿保留
+  stop: () => void;
+  // 更新表单数据（视为用户修改，会触发自动保存）
+  update: (data: Partial<T>) => void;
+  // 获取当前状态快照，状态未变化时返回同一对象
+  getState: () => FormPersistenceState<T>;
+  // 订阅状态变化，返回取消订阅函数；同一轮同步修改只通知一次
+  subscribe: (listener: FormPersistenceListener<T>) => () => void;
+  // 内部响应式状态，供Vue适配层直接使用
+  state: UseFormPersistenceState<T>;
+}
+
+// React Hook返回类型：状态快照、操作与update
+export interface ReactFormPersistenceReturn<T>
+  extends FormPersistenceState<T>,
+    FormPersistenceActions<T> {
+  update: (data: Partial<T>) => void;
+}
@@ -0,0 +1,21 @@
+import type { ServerBaseline } from "./baselineType";
+
+// 持久化的草稿信封
+export interface PayloadEnvelope {
+  schemaVersion: number; // 数据结构版本，旧版无版本的数据视为0
+  savedAt: string;
+  formId: string;
+  data: Record<string, any>; // 经过保存前转换的表单数据
+  baseline?: ServerBaseline; // 草稿所基于的服务器基线
+}
+
+// 数据结构迁移函数：将上一版本的数据升级为当前版本
+export type PayloadMigration = (
+  data: Record<string, any>
+) => Record<string, any>;
+
+// 迁移表：键为目标版本号，恢复时从草稿版本开始依次执行
+export type PayloadMigrations = Record<number, PayloadMigration>;
+
+// 无法识别版本（高于当前版本或缺少迁移）时的处理方式：discard丢弃草稿，report保留草稿并报告错误
+export type UnknownSchemaVersionPolicy = "discard" | "report";
@@ -0,0 +1,14 @@
+import type { UseFormPersistenceOptions } from "./useFormPersistenceType";
+
+// 应用级默认选项：错误级别、过期时间、错误回调、存储适配器、存储键前缀等
+// 文件字段与服务器基线属于单个表单，不能设置默认值
+export type FormPersistenceDefaults = Omit<
+  UseFormPersistenceOptions,
+  "fileFields" | "baseline"
+>;
+
+// FormPersistencePlugin选项
+export interface FormPersistencePluginOptions extends FormPersistenceDefaults {
+  // 是否全局注册PersistentForm、PersistentFileInput组件与v-persist指令，默认true
+  registerComponents?: boolean;
+}
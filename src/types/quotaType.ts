@@ -0,0 +1,22 @@
+// 存储空间不足时的淘汰策略：none不清理，expired清理其他表单的过期草稿，oldest在清理过期草稿后继续按保存时间从旧到新清理
+export type EvictionPolicy = "none" | "expired" | "oldest";
+
+// 存储配额选项
+export interface QuotaOptions {
+  persist?: boolean; // 初始化时请求持久化存储，避免浏览器在空间紧张时清除数据
+  eviction?: EvictionPolicy; // 淘汰策略，默认expired
+  reserveBytes?: number; // 保存文件时额外预留的空间（字节），默认0
+  onEvict?: (formIds: string[]) => void; // 其他表单的草稿被淘汰后回调
+}
+
+// 长期存储中的草稿概要
+export interface StoredDraftInfo {
+  formId: string;
+  savedAt?: string;
+}
+
+// 淘汰结果
+export interface EvictionResult {
+  evicted: string[]; // 被淘汰草稿的表单ID
+  satisfied: boolean; // 淘汰后空间是否已足够
+}
@@ -0,0 +1,19 @@
+import type { PayloadEnvelope } from "./payloadEnvelopeType";
+import type { DraftFileSummary } from "./useFormPersistenceType";
+
+// 远程草稿：持久化的草稿信封 + 文件元数据（不含文件内容）
+export interface RemoteDraft {
+  envelope: PayloadEnvelope;
+  files: Record<string, DraftFileSummary[]>; // 键为文件字段名
+}
+
+// 远程同步选项
+// 接口约定：GET {endpoint}/{formId} 拉取草稿（不存在时返回404），PUT推送草稿（请求体为RemoteDraft），DELETE删除草稿
+export interface RemoteSyncOptions {
+  endpoint: string; // 草稿接口地址
+  fetch?: typeof fetch; // 自定义请求函数（如附带鉴权或在测试中替换），默认使用全局fetch
+  headers?: Record<string, string>; // 附加请求头
+  retryDelayMs?: number; // 首次重试间隔（毫秒），之后按2倍递增，默认1000
+  maxRetryDelayMs?: number; // 最大重试间隔（毫秒），默认60000
+  pullTimeoutMs?: number; // 恢复时拉取草稿的超时时间（毫秒），超时后使用本地草稿，默认5000
+}
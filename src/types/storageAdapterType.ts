@@ -0,0 +1,75 @@
+import type { StoredFile } from "./useFormPersistenceType";
+
+// 同步或异步返回值
+export type MaybePromise<T> = T | Promise<T>;
+
+// 文本存储作用域：session对应当前会话（刷新保留、关闭即清除），local对应长期存储（用于崩溃恢复）
+export type StorageScope = "session" | "local";
+
+// 文件保存进度回调
+export type FileProgressCallback = (loaded: number, total: number) => void;
+
+// 按字节范围读取内容的文件来源（如逐段加密的文件），分块保存时逐块读取，内容不必同时驻留内存
+export interface FileSource {
+  name: string;
+  type: string;
+  size: number;
+  lastModified: number;
+  read: (start: number, end: number) => Promise<Blob>;
+  // 中断后能否从已写入的分块继续；为false时再次保存同一文件会先删除上次中断残留的记录
+  resumable: boolean;
+}
+
+// IndexedDB文件存储选项
+export interface IndexedDBFileOptions {
+  // 分块大小（字节），超过该大小的文件分块存储，默认4MB
+  chunkSize?: number;
+  // IndexedDB数据库名，默认FormPersistenceDB；同源的多个应用应使用不同的数据库名
+  dbName?: string;
+}
+
+// 存储适配器接口：文本读写 + 文件存取
+export interface StorageAdapter {
+  // 初始化（如打开数据库），可选
+  init?: () => Promise<void>;
+  // 读取文本数据
+  getItem: (scope: StorageScope, key: string) => MaybePromise<string | null>;
+  // 写入文本数据
+  setItem: (
+    scope: StorageScope,
+    key: string,
+    value: string
+  ) => MaybePromise<void>;
+  // 删除文本数据
+  removeItem: (scope: StorageScope, key: string) => MaybePromise<void>;
+  // 列出作用域内的所有文本键，可选；未实现时无法清理其他表单的草稿
+  keys?: (scope: StorageScope) => MaybePromise<string[]>;
+  // 保存文件，返回已存储的文件记录
+  putFile: (
+    file: File,
+    formId: string,
+    fieldName: string,
+    onProgress?: FileProgressCallback
+  ) => Promise<StoredFile>;
+  // 保存按需读取内容的文件，返回不含数据的文件记录，可选；未实现时加密适配器会先加密整个文件再调用putFile
+  putFileSource?: (
+    source: FileSource,
+    formId: string,
+    fieldName: string,
+    onProgress?: FileProgressCallback
+  ) => Promise<Omit<StoredFile, "data">>;
+  // 获取指定字段的文件列表
+  listFiles: (formId: string, fieldName: string) => Promise<StoredFile[]>;
+  // 删除文件，不传fieldName时删除整个表单的文件（含未完成的分块保存）
+  deleteFiles: (formId: string, fieldName?: string) => Promise<void>;
+  // 统计各表单的文件数量（键为formId），可选；未实现时无法清理孤立文件
+  countFiles?: () => Promise<Record<string, number>>;
+  // 按文件ID删除文件
+  removeFiles: (fileIds: number[]) => Promise<void>;
+  // 保存字段内的文件顺序，fileIds为排序后的文件ID
+  reorderFiles: (
+    formId: string,
+    fieldName: string,
+    fileIds: number[]
+  ) => Promise<void>;
+}
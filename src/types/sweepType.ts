@@ -0,0 +1,26 @@
+import type { StorageAdapter } from "./storageAdapterType";
+
+// 草稿存储键的用途：draft长期草稿，session会话草稿，normalClose正常关闭标记，history草稿历史，sync跨标签页同步
+export type DraftKeyKind =
+  | "draft"
+  | "session"
+  | "normalClose"
+  | "history"
+  | "sync";
+
+// 清理过期草稿的选项
+export interface SweepOptions {
+  storageAdapter?: StorageAdapter; // 存储适配器，默认与useFormPersistence相同
+  dbName?: string; // IndexedDB数据库名，只用于未指定storageAdapter时创建的默认适配器
+  dataExpiryMs?: number; // 草稿过期时间，默认24小时
+  excludeFormIds?: string[]; // 不参与清理的表单（如当前正在编辑的表单）
+  keyPrefix?: string; // 存储键前缀，默认与useFormPersistence相同
+}
+
+// 清理结果
+export interface SweepResult {
+  expiredFormIds: string[]; // 草稿已过期而被删除的表单
+  orphanedFormIds: string[]; // 草稿已不存在、仅残留文件或附属数据的表单
+  removedKeys: string[]; // 删除的存储键
+  removedFileCount: number; // 删除的文件数量
+}
@@ -0,0 +1,25 @@
+// 跨标签页同步策略：mirror实时镜像，lock同一时间只允许一个标签页编辑，notify仅通过回调通知冲突
+export type TabSyncPolicy = "mirror" | "lock" | "notify";
+
+// 跨标签页同步消息
+export type TabSyncMessage =
+  | { type: "text"; tabId: string; payload?: string } // 文本数据已保存，payload为持久化的JSON（加密时省略，需从存储读取）
+  | { type: "files"; tabId: string; fieldName: string } // 字段文件已变更
+  | { type: "lock-query"; tabId: string } // 查询是否有标签页持有编辑锁
+  | { type: "lock"; tabId: string } // 声明持有编辑锁
+  | { type: "unlock"; tabId: string }; // 释放编辑锁
+
+// 跨标签页冲突信息（notify策略下通过onConflict回调传出）
+export interface TabSyncConflict {
+  type: "text" | "files";
+  sourceTabId: string; // 发生变更的标签页
+  data?: Record<string, unknown>; // 对方保存的表单数据（type为text时存在）
+  fieldName?: string; // 变更的文件字段（type为files时存在）
+  apply: () => Promise<void>; // 接受对方的变更
+}
+
+// 跨标签页同步选项
+export interface CrossTabSyncOptions {
+  policy?: TabSyncPolicy; // 同步策略，默认mirror
+  onConflict?: (conflict: TabSyncConflict) => void; // 冲突回调（notify策略）
+}
@@ -0,0 +1,13 @@
+// 类型编解码器：将JSON无法表示的值转换为带类型标记的可序列化数据
+export interface TypeCodec<V = any> {
+  name: string; // 类型名称，写入类型标记，需唯一
+  test: (value: unknown) => boolean; // 判断值是否由该编解码器处理
+  encode: (value: V) => unknown; // 编码结果可以包含其他需要编码的值
+  decode: (data: any) => V;
+}
+
+// 类型编解码选项
+export interface TypeCodecOptions {
+  // 自定义编解码器，优先于内置编解码器匹配（可用于自定义类）
+  codecs?: TypeCodec[];
+}
@@ -1,4 +1,31 @@
-import type { Reactive, Ref } from "vue";
+import type { ComputedRef, Reactive, Ref } from "vue";
+import type { StorageAdapter } from "./storageAdapterType";
+import type { CrossTabSyncOptions } from "./tabSyncType";
+import type { DraftHistoryOptions, DraftSnapshot } from "./draftHistoryType";
+import type { EncryptionOptions } from "./encryptionType";
+import type { QuotaOptions } from "./quotaType";
+import type { SweepResult } from "./sweepType";
+import type {
+  ConflictResolution,
+  FieldConflict,
+  ServerBaseline,
+} from "./baselineType";
+import type { RemoteSyncOptions } from "./remoteSyncType";
+import type { TypeCodec, TypeCodecOptions } from "./typeCodecType";
+import type {
+  ClearEvent,
+  CrashDetectedEvent,
+  ExpireEvent,
+  FilesSavedEvent,
+  FormPersistenceEventHandler,
+  FormPersistenceEventName,
+  RestoreEvent,
+  SaveEvent,
+} from "./formPersistenceEventType";
+import type {
+  PayloadMigrations,
+  UnknownSchemaVersionPolicy,
+} from "./payloadEnvelopeType";
 
 // 内部使用的标记接口，用于表示表单数据中可能包含的文件数据标记
 export interface FormDataWithFileMark {
@@ -14,10 +41,39 @@ export interface DataTransformMiddleware {
   afterRestore?: (data: any) => any;
 }
 
+// 不再向下展开路径的值类型
+type FieldPathLeaf =
+  | Date
+  | Blob
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ArrayBuffer
+  | ArrayBufferView;
+
+// 展开深度（避免递归类型无限展开）
+type FieldPathDepth = [never, 0, 1, 2, 3];
+
+// 表单数据的字段路径（点分隔，数组下标可写为数字或*），最多展开4层
+export type FieldPath<T, D extends number = 4> = [D] extends [never]
+  ? never
+  : T extends FieldPathLeaf
+  ? never
+  : T extends readonly (infer U)[]
+  ? `${number}` | "*" | `${number | "*"}.${FieldPath<U, FieldPathDepth[D]>}`
+  : T extends object
+  ? {
+      [K in keyof T & string]: K | `${K}.${FieldPath<T[K], FieldPathDepth[D]>}`;
+    }[keyof T & string]
+  : never;
+
 // 字段级数据格式转换配置
-export interface FieldTransformConfig {
-  [fieldName: string]: DataTransformMiddleware;
-}
+// 键为字段名、点分隔路径（address.zip）、数组通配（items.*.price）或通配模式（phone*、**.id）
+// 保存前按路径段数从多到少应用（先子字段后父字段），段数相同按注册顺序；恢复后按相反顺序应用
+export type FieldTransformConfig<T = unknown> = {
+  [P in FieldPath<T>]?: DataTransformMiddleware;
+} & {
+  [pattern: string]: DataTransformMiddleware | undefined;
+};
 
 // 文件存储数据结构
 export interface StoredFile {
@@ -28,10 +84,51 @@ export interface StoredFile {
   fileType: string;
   fileSize: number;
   lastModified: number;
-  data: ArrayBuffer;
+  data: ArrayBuffer | Blob; // 小文件为ArrayBuffer，分块存储的大文件恢复为Blob
   savedTime: string;
+  chunkSize?: number; // 分块大小（仅分块存储时存在）
+  chunkCount?: number; // 分块数量（仅分块存储时存在）
+  complete?: boolean; // 分块是否全部写入，中断的保存为false
+  order?: number; // 字段内的排序位置，未设置时按保存顺序排在最后
+}
+
+// 文件保存模式：replace替换字段全部文件，append追加到已有文件之后
+export type FileSaveMode = "replace" | "append";
+
+// 敏感字段处理方式：session只保存在会话存储（刷新可恢复，不参与崩溃恢复），mask以掩码代替真实值
+export type SensitiveFieldMode = "session" | "mask";
+
+// 草稿恢复模式：auto挂载时直接恢复；prompt挂载时读取到pendingDraft等待确认；manual由调用方调用restoreData读取到pendingDraft
+// 恢复完成前（manual模式下调用restoreData或discardDraft之前）与pendingDraft存在期间暂停保存，避免覆盖尚未恢复的草稿
+export type RestoreMode = "auto" | "prompt" | "manual";
+
+// 草稿来源：session为刷新后的会话草稿，crash为非正常关闭后的崩溃恢复草稿，
+// reopen为正常关闭（clearOnClose=false）后重新打开时保留的草稿，remote为从服务器拉取的较新草稿
+export type DraftSource = "session" | "crash" | "reopen" | "remote";
+
+// 草稿中的文件摘要
+export interface DraftFileSummary {
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number;
 }
 
+// 待确认的草稿
+export interface PendingDraft<T> {
+  data: Partial<T>;
+  savedAt?: string;
+  files: Record<string, DraftFileSummary[]>; // 键为文件字段名
+  source: DraftSource;
+  conflicts: FieldConflict[]; // 与服务器当前数据的字段冲突（需配置baseline）
+}
+
+// 提交处理函数：接收表单数据与还原后的文件（键为文件字段名）
+export type SubmitHandler<T, R = unknown> = (
+  data: T,
+  files: Record<string, File[]>
+) => R | Promise<R>;
+
 // 上传进度信息
 export interface UploadProgress {
   fieldName: string;
@@ -40,29 +137,97 @@ export interface UploadProgress {
   percent: number;
 }
 
-// 表单持久化Hook返回类型
-export interface UseFormPersistenceReturn<T> {
+// 表单持久化的响应式状态（Vue）
+export interface UseFormPersistenceState<T> {
   formData: Reactive<T & Partial<FormDataWithFileMark>>;
   fileData: Reactive<Record<string, StoredFile[]>>;
+  // 挂载后的初始化（含恢复草稿）是否完成，服务端渲染时始终为false，可用于显示骨架屏
+  ready: Ref<boolean>;
+  isRestoring: Ref<boolean>; // 是否正在恢复草稿
   hasUnsavedChanges: Ref<boolean>;
   uploadProgress: Ref<UploadProgress | null>;
   error: Ref<string | null>;
-  saveFiles: (fieldName: string, files: File[]) => Promise<void>;
+  isLockedByOtherTab: Ref<boolean>; // lock策略下是否被其他标签页锁定
+  // 草稿历史（需启用history选项）
+  canUndo: Ref<boolean>;
+  canRedo: Ref<boolean>;
+  snapshots: Ref<DraftSnapshot[]>; // 命名快照列表
+  // 待确认的草稿（prompt与manual模式）
+  pendingDraft: Ref<PendingDraft<T> | null>;
+  // 恢复的草稿与服务器当前数据的字段冲突（需配置baseline）
+  conflicts: Ref<FieldConflict[]>;
+  // 提交状态，提交失败的错误记录到lastSubmitError
+  isSubmitting: Ref<boolean>;
+  lastSubmitError: Ref<Error | null>;
+  // 脏数据跟踪：与初始值深度比较
+  isDirty: ComputedRef<boolean>;
+  dirtyFields: ComputedRef<string[]>; // 与初始值不同的字段（含已有文件的文件字段）
+  touchedFields: Ref<string[]>; // 用户修改过的字段
+}
+
+// 表单持久化操作（与框架无关）
+export interface FormPersistenceActions<T> {
+  saveFiles: (
+    fieldName: string,
+    files: File[],
+    mode?: FileSaveMode
+  ) => Promise<void>;
+  addFiles: (fieldName: string, files: File[]) => Promise<void>; // 追加文件
+  removeFile: (fieldName: string, fileId: number) => Promise<void>; // 删除单个文件
+  replaceFile: (fieldName: string, fileId: number, file: File) => Promise<void>; // 替换单个文件
+  reorderFiles: (fieldName: string, fileIds: number[]) => Promise<void>; // 调整文件顺序
   clearStorage: () => Promise<void>;
   restoreData: () => Promise<void>;
   clearError: () => void;
   getFormDataJson: () => string; // 获取表单数据的JSON字符串
   getFileDataJson: () => string; // 获取文件数据的JSON字符串
+  // 导出草稿（含文件内容）为JSON文件，用于在其他设备继续填写
+  exportDraft: () => Promise<Blob>;
+  // 导入exportDraft生成的文件，替换当前的表单数据与文件
+  importDraft: (source: Blob | string) => Promise<void>;
   // 添加注册中间件的方法
   registerTransformMiddleware: (middleware: DataTransformMiddleware) => void;
   // 添加字段级中间件配置方法
-  registerFieldTransforms: (fieldTransforms: FieldTransformConfig) => void;
+  registerFieldTransforms: (fieldTransforms: FieldTransformConfig<T>) => void;
+  // 注册类型编解码器（如自定义类），同名编解码器会被替换
+  registerTypeCodec: (codec: TypeCodec) => void;
+  // 草稿历史（需启用history选项）
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  createSnapshot: (label: string) => Promise<DraftSnapshot>;
+  restoreSnapshot: (id: string) => Promise<void>;
+  // 清理其他表单的过期草稿与孤立文件
+  sweepExpiredDrafts: () => Promise<SweepResult>;
+  acceptDraft: () => void; // 将待确认的草稿应用到表单
+  discardDraft: () => Promise<void>; // 放弃并删除待确认或无法读取（恢复失败）的草稿
+  resolveConflict: (
+    field: string,
+    resolution: ConflictResolution
+  ) => Promise<void>;
+  // 提交表单：处理函数成功后清除草稿，失败时保留草稿并记录到lastSubmitError
+  submit: <R>(handler: SubmitHandler<T, R>) => Promise<R>;
+  reset: () => Promise<void>; // 重置为初始值并清除草稿
+  resetField: (field: string) => Promise<void>; // 重置单个字段并更新存储
+  // 监听生命周期事件，返回取消监听的函数
+  on: <K extends FormPersistenceEventName>(
+    event: K,
+    handler: FormPersistenceEventHandler<T, K>
+  ) => () => void;
+  off: <K extends FormPersistenceEventName>(
+    event: K,
+    handler: FormPersistenceEventHandler<T, K>
+  ) => void;
 }
+
+// 表单持久化Hook返回类型
+export interface UseFormPersistenceReturn<T>
+  extends UseFormPersistenceState<T>,
+    FormPersistenceActions<T> {}
 // 错误级别枚举
 export type ErrorLevel = 'none' | 'basic' | 'detailed';
 
 // 表单持久化选项接口
-export interface UseFormPersistenceOptions {
+export interface UseFormPersistenceOptions<T = unknown> {
   fileFields: string[]; // 由组件传入的文件字段列表
   clearOnClose?: boolean; // 是否在页面关闭时清除数据
   dataExpiryMs?: number; // 数据过期时间（毫秒），默认24小时
@@ -71,8 +236,56 @@ export interface UseFormPersistenceOptions {
   // 全局数据转换中间件
   transformMiddleware?: DataTransformMiddleware;
   // 字段级数据转换配置
-  fieldTransforms?: FieldTransformConfig;
+  fieldTransforms?: FieldTransformConfig<T>;
+  // 类型编解码：保存时为Date、Map、Set、BigInt、类型化数组等添加类型标记，恢复时还原，默认true
+  // 编码在全部保存前转换之后执行，解码在全部恢复后转换之前执行
+  typeCodec?: boolean | TypeCodecOptions;
   // 新增配置选项
   autoSave?: boolean; // 是否自动保存，默认true
   autoSaveInterval?: number | false; // 自动保存间隔时间（毫秒），默认300ms，设置为false则不启动自动保存
+  // 存储键前缀，默认form_persistence_；同源的多个应用应使用不同的前缀
+  keyPrefix?: string;
+  // IndexedDB数据库名，只用于未指定storageAdapter时创建的默认适配器
+  dbName?: string;
+  // 存储适配器，默认使用sessionStorage/localStorage + IndexedDB
+  storageAdapter?: StorageAdapter;
+  // 跨标签页同步，true表示使用默认的mirror策略
+  crossTabSync?: boolean | CrossTabSyncOptions;
+  // 草稿历史，true表示使用默认配置（保留20条）
+  history?: boolean | DraftHistoryOptions;
+  // 加密存储（AES-GCM），文本与文件写入前加密
+  encryption?: EncryptionOptions;
+  // 数据结构版本，默认取migrations中的最高版本（无迁移时为0）
+  schemaVersion?: number;
+  // 数据结构迁移表，键为目标版本号，恢复旧草稿时逐版本升级
+  migrations?: PayloadMigrations;
+  // 无法识别版本的草稿处理方式，默认discard
+  unknownVersionPolicy?: UnknownSchemaVersionPolicy;
+  // 存储配额：持久化存储请求与空间不足时的淘汰策略
+  quota?: QuotaOptions;
+  // 初始化时在后台清理其他表单的过期草稿与孤立文件，默认false
+  autoSweep?: boolean;
+  // 清理完成后回调，返回清理结果
+  onSweep?: (result: SweepResult) => void;
+  // 草稿恢复模式，默认auto
+  restoreMode?: RestoreMode;
+  // 服务器基线（当前记录的版本与数据），随草稿保存；恢复基于旧版本的草稿时与服务器数据三方合并
+  baseline?: ServerBaseline;
+  // 远程同步：保存时推送草稿与文件元数据到服务器，恢复时拉取较新的草稿
+  remoteSync?: RemoteSyncOptions;
+  // 只持久化这些字段（字段名或点分隔路径），未设置时持久化全部字段
+  include?: string[];
+  // 永不持久化的字段（字段名或点分隔路径），如验证码；不持久化的文件字段中的文件只保存在内存中
+  exclude?: string[];
+  // 敏感字段（字段名或点分隔路径），如密码、卡号，按sensitiveMode处理
+  sensitive?: string[];
+  // 敏感字段处理方式，默认session
+  sensitiveMode?: SensitiveFieldMode;
+  // 生命周期事件回调，与返回值的on方法监听的事件相同
+  onSave?: (event: SaveEvent) => void; // 草稿写入存储后
+  onRestore?: (event: RestoreEvent<T>) => void; // 草稿应用到表单后
+  onCrashDetected?: (event: CrashDetectedEvent) => void; // 检测到上次非正常关闭
+  onExpire?: (event: ExpireEvent) => void; // 草稿过期被删除
+  onFilesSaved?: (event: FilesSavedEvent) => void; // 文件保存后
+  onClear?: (event: ClearEvent) => void; // 存储清除后
 }
@@ -0,0 +1,3 @@
+// 生成唯一标识（时间戳 + 随机数）
+export const createId = (): string =>
+  `${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,55 @@
+// 是否为普通对象（含reactive代理）
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null &&
+  typeof value === "object" &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+// 深度比较：支持基本类型、数组、普通对象、Date、Map与Set，其他对象按引用比较
+export const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a instanceof Map && b instanceof Map) {
+    return (
+      a.size === b.size &&
+      Array.from(a).every(
+        ([key, item]) => b.has(key) && isDeepEqual(item, b.get(key))
+      )
+    );
+  }
+  if (a instanceof Set && b instanceof Set) {
+    return a.size === b.size && Array.from(a).every((item) => b.has(item));
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+// 深拷贝数组、普通对象、Date、Map与Set，其他对象（如File、Blob）保持引用
+export const cloneDeep = <V>(value: V): V => {
+  if (value instanceof Date) return new Date(value.getTime()) as V;
+  if (value instanceof Map) {
+    return new Map(
+      Array.from(value, ([key, item]) => [key, cloneDeep(item)])
+    ) as V;
+  }
+  if (value instanceof Set) return new Set(value) as V;
+  if (Array.isArray(value)) return value.map(cloneDeep) as V;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneDeep(item)])
+    ) as V;
+  }
+  return value;
+};
@@ -0,0 +1,115 @@
+import type { StoredFile } from "../types/useFormPersistenceType";
+import type { PayloadEnvelope } from "../types/payloadEnvelopeType";
+import type { DraftArchive, DraftArchiveFile } from "../types/draftArchiveType";
+import { DraftImportError } from "../errors/formPersistenceErrors";
+import { fromBase64, toBase64 } from "./base64";
+
+const ARCHIVE_FORMAT = "form-persistence-draft";
+const ARCHIVE_VERSION = 1;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// 读取文件内容并编码为Base64（分块存储的大文件为Blob）
+const encodeFile = async (file: StoredFile): Promise<DraftArchiveFile> => {
+  const buffer =
+    file.data instanceof Blob ? await file.data.arrayBuffer() : file.data;
+  return {
+    fileName: file.fileName,
+    fileType: file.fileType,
+    fileSize: file.fileSize,
+    lastModified: file.lastModified,
+    data: toBase64(new Uint8Array(buffer)),
+  };
+};
+
+// 生成草稿导出文件
+export const createDraftArchive = async (
+  formId: string,
+  draft: PayloadEnvelope,
+  files: Record<string, StoredFile[]>
+): Promise<DraftArchive> => {
+  const archiveFiles: Record<string, DraftArchiveFile[]> = {};
+  for (const [fieldName, list] of Object.entries(files)) {
+    archiveFiles[fieldName] = await Promise.all(list.map(encodeFile));
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    formId,
+    exportedAt: new Date().toISOString(),
+    draft,
+    files: archiveFiles,
+  };
+};
+
+const isArchiveFile = (value: unknown): value is DraftArchiveFile =>
+  isRecord(value) &&
+  typeof value.fileName === "string" &&
+  typeof value.fileType === "string" &&
+  typeof value.fileSize === "number" &&
+  typeof value.lastModified === "number" &&
+  typeof value.data === "string";
+
+// 解析并校验草稿导出文件，格式无效或formId不匹配时抛出DraftImportError
+export const parseDraftArchive = (
+  text: string,
+  formId: string
+): DraftArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new DraftImportError("导出文件不是有效的JSON");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== ARCHIVE_FORMAT) {
+    throw new DraftImportError("不是表单草稿导出文件");
+  }
+  if (parsed.version !== ARCHIVE_VERSION) {
+    throw new DraftImportError(`不支持的导出格式版本: ${parsed.version}`);
+  }
+  if (parsed.formId !== formId) {
+    throw new DraftImportError(
+      `导出文件属于表单[${parsed.formId}]，与当前表单[${formId}]不匹配`
+    );
+  }
+
+  const { draft, files } = parsed;
+  if (
+    !isRecord(draft) ||
+    typeof draft.schemaVersion !== "number" ||
+    !isRecord(draft.data)
+  ) {
+    throw new DraftImportError("导出文件中的草稿数据无效");
+  }
+  if (
+    !isRecord(files) ||
+    !Object.values(files).every(
+      (list) => Array.isArray(list) && list.every(isArchiveFile)
+    )
+  ) {
+    throw new DraftImportError("导出文件中的文件数据无效");
+  }
+
+  return parsed as DraftArchive;
+};
+
+// 将导出文件中的文件记录还原为File对象，内容长度与记录不符时视为损坏
+export const decodeArchiveFile = (file: DraftArchiveFile): File => {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = fromBase64(file.data);
+  } catch {
+    throw new DraftImportError(`文件[${file.fileName}]的内容无效`);
+  }
+  if (bytes.length !== file.fileSize) {
+    throw new DraftImportError(`文件[${file.fileName}]的内容不完整`);
+  }
+
+  return new File([bytes], file.fileName, {
+    type: file.fileType,
+    lastModified: file.lastModified,
+  });
+};
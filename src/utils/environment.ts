@@ -0,0 +1,3 @@
+// 是否运行在浏览器中（服务端渲染时为false）
+export const isBrowser = (): boolean =>
+  typeof window !== "undefined" && typeof document !== "undefined";
@@ -0,0 +1,42 @@
+// 类型化事件发射器：监听函数抛出的异常交给onListenerError，不影响其他监听函数与触发方
+export class EventEmitter<Events extends object> {
+  private handlers = new Map<keyof Events, Set<(event: any) => void>>();
+  private onListenerError: (error: unknown, event: keyof Events) => void;
+
+  constructor(onListenerError: (error: unknown, event: keyof Events) => void) {
+    this.onListenerError = onListenerError;
+  }
+
+  // 添加监听，返回取消监听的函数
+  on<K extends keyof Events>(
+    event: K,
+    handler: (payload: Events[K]) => void
+  ): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  // 取消监听
+  off<K extends keyof Events>(
+    event: K,
+    handler: (payload: Events[K]) => void
+  ): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  // 触发事件
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.handlers.get(event)?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.onListenerError(error, event);
+      }
+    });
+  }
+}
@@ -0,0 +1,132 @@
+// 字段路径工具：路径为字段名或以点分隔的嵌套路径（如 payment.cardNumber、items.0.name）
+// 写入类操作不修改原对象，只复制路径上经过的对象
+
+type PathContainer = Record<string, any>;
+
+const isContainer = (value: unknown): value is PathContainer =>
+  value !== null && typeof value === "object";
+
+// 浅复制对象或数组
+const copyContainer = (value: PathContainer): PathContainer =>
+  Array.isArray(value) ? [...value] : { ...value };
+
+// 判断路径是否存在
+export const hasPath = (data: unknown, path: string): boolean => {
+  let current = data;
+  for (const key of path.split(".")) {
+    if (!isContainer(current) || !(key in current)) return false;
+    current = current[key];
+  }
+  return true;
+};
+
+// 读取路径上的值
+export const getPath = (data: unknown, path: string): any =>
+  path
+    .split(".")
+    .reduce<any>(
+      (current, key) => (isContainer(current) ? current[key] : undefined),
+      data
+    );
+
+// 设置路径上的值，缺失的中间层级以空对象补齐
+export const setPath = <D extends PathContainer>(
+  data: D,
+  path: string,
+  value: unknown
+): D => {
+  const [key = "", ...rest] = path.split(".");
+  const result = copyContainer(data);
+  result[key] = rest.length
+    ? setPath(isContainer(data[key]) ? data[key] : {}, rest.join("."), value)
+    : value;
+  return result as D;
+};
+
+// 删除路径上的值
+export const omitPath = <D extends PathContainer>(data: D, path: string): D => {
+  if (!hasPath(data, path)) return data;
+
+  const [key = "", ...rest] = path.split(".");
+  const result = copyContainer(data);
+  if (rest.length) {
+    result[key] = omitPath(data[key], rest.join("."));
+  } else {
+    delete result[key];
+  }
+  return result as D;
+};
+
+// 判断路径是否被选中：与某个模式相同，或位于某个模式之下
+export const isPathSelected = (path: string, patterns: string[]): boolean =>
+  patterns.some(
+    (pattern) => path === pattern || path.startsWith(`${pattern}.`)
+  );
+
+// 路径模式：以点分隔，段可以是字段名、*（匹配任意一段，含数组下标）、
+// 含*或?的通配段（如 phone*）以及**（匹配零到任意多段）
+const DEEP_WILDCARD = "**";
+
+type PathSegmentMatcher =
+  | { type: "key"; key: string }
+  | { type: "glob"; pattern: RegExp }
+  | { type: "deep" };
+
+const compileSegment = (segment: string): PathSegmentMatcher => {
+  if (segment === DEEP_WILDCARD) return { type: "deep" };
+  if (!/[*?]/.test(segment)) return { type: "key", key: segment };
+
+  const source = segment
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return { type: "glob", pattern: new RegExp(`^${source}$`) };
+};
+
+// 编译结果按模式缓存，同一模式只解析一次
+const compiledPatterns = new Map<string, PathSegmentMatcher[]>();
+
+const compilePathPattern = (pattern: string): PathSegmentMatcher[] => {
+  let matchers = compiledPatterns.get(pattern);
+  if (!matchers) {
+    matchers = pattern.split(".").map(compileSegment);
+    compiledPatterns.set(pattern, matchers);
+  }
+  return matchers;
+};
+
+// 查找数据中与模式匹配的全部路径，只沿模式能够匹配的分支遍历
+export const findMatchingPaths = (data: unknown, pattern: string): string[] => {
+  const matchers = compilePathPattern(pattern);
+  // **可能从不同分支匹配到同一路径，需要去重
+  const paths = new Set<string>();
+
+  const walk = (value: unknown, index: number, keys: string[]): void => {
+    if (index === matchers.length) {
+      if (keys.length) paths.add(keys.join("."));
+      return;
+    }
+    if (!isContainer(value)) return;
+
+    const matcher = matchers[index]!;
+    if (matcher.type === "key") {
+      if (Object.prototype.hasOwnProperty.call(value, matcher.key)) {
+        walk(value[matcher.key], index + 1, [...keys, matcher.key]);
+      }
+      return;
+    }
+    if (matcher.type === "deep") {
+      walk(value, index + 1, keys);
+    }
+    for (const key of Object.keys(value)) {
+      if (matcher.type === "deep") {
+        walk(value[key], index, [...keys, key]);
+      } else if (matcher.pattern.test(key)) {
+        walk(value[key], index + 1, [...keys, key]);
+      }
+    }
+  };
+
+  walk(data, 0, []);
+  return Array.from(paths);
+};
@@ -0,0 +1,73 @@
+import type {
+  PayloadEnvelope,
+  PayloadMigrations,
+} from "../types/payloadEnvelopeType";
+import type { ServerBaseline } from "../types/baselineType";
+import { SchemaVersionError } from "../errors/formPersistenceErrors";
+
+// 创建草稿信封
+export const createEnvelope = (
+  formId: string,
+  schemaVersion: number,
+  data: Record<string, any>,
+  baseline?: ServerBaseline
+): PayloadEnvelope => ({
+  schemaVersion,
+  savedAt: new Date().toISOString(),
+  formId,
+  data,
+  ...(baseline && { baseline }),
+});
+
+// 解析草稿信封，兼容无版本的旧数据（表单字段与savedAt混在一起，视为版本0）
+export const parseEnvelope = (
+  text: string,
+  formId: string
+): PayloadEnvelope => {
+  const parsed = JSON.parse(text) as Record<string, any>;
+
+  if (
+    typeof parsed.schemaVersion === "number" &&
+    parsed.data !== null &&
+    typeof parsed.data === "object"
+  ) {
+    return parsed as PayloadEnvelope;
+  }
+
+  const { savedAt, ...data } = parsed;
+  return { schemaVersion: 0, savedAt, formId, data };
+};
+
+// 按迁移表将草稿逐版本升级到目标版本
+export const migrateEnvelope = (
+  envelope: PayloadEnvelope,
+  targetVersion: number,
+  migrations: PayloadMigrations
+): PayloadEnvelope => {
+  if (envelope.schemaVersion > targetVersion) {
+    throw new SchemaVersionError(
+      `草稿版本${envelope.schemaVersion}高于当前版本${targetVersion}`,
+      envelope.schemaVersion
+    );
+  }
+
+  let { data, baseline } = envelope;
+  for (
+    let version = envelope.schemaVersion + 1;
+    version <= targetVersion;
+    version++
+  ) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new SchemaVersionError(
+        `缺少从版本${version - 1}升级到版本${version}的迁移`,
+        envelope.schemaVersion
+      );
+    }
+    data = migration(data);
+    // 基线数据与草稿数据同属一个版本，一并升级
+    baseline = baseline && { ...baseline, data: migration(baseline.data) };
+  }
+
+  return { ...envelope, schemaVersion: targetVersion, data, baseline };
+};
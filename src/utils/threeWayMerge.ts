@@ -0,0 +1,39 @@
+import type { FieldConflict } from "../types/baselineType";
+import { isDeepEqual } from "./deepValue";
+
+// 按顶层字段三方合并：只有一方修改的字段采用修改方的值，双方改成不同值的字段记为冲突并保留本地值
+// base未知时无法判断哪一方修改过，所有不同的字段都视为冲突
+export const threeWayMerge = (
+  base: Record<string, any> | undefined,
+  local: Record<string, any>,
+  server: Record<string, any>
+): { data: Record<string, any>; conflicts: FieldConflict[] } => {
+  const data: Record<string, any> = { ...local };
+  const conflicts: FieldConflict[] = [];
+  const fields = new Set([
+    ...Object.keys(base ?? {}),
+    ...Object.keys(local),
+    ...Object.keys(server),
+  ]);
+
+  fields.forEach((field) => {
+    const baseValue = base?.[field];
+    const localChanged = !base || !isDeepEqual(local[field], baseValue);
+    const serverChanged = !base || !isDeepEqual(server[field], baseValue);
+
+    if (!serverChanged || isDeepEqual(local[field], server[field])) return;
+
+    if (!localChanged) {
+      data[field] = server[field];
+    } else {
+      conflicts.push({
+        field,
+        base: baseValue,
+        local: local[field],
+        server: server[field],
+      });
+    }
+  });
+
+  return { data, conflicts };
+};
@@ -0,0 +1,8 @@
+import type { StoredFile } from "../types/useFormPersistenceType";
+
+// 将存储的文件记录还原为File对象
+export const toFile = (storedFile: StoredFile): File =>
+  new File([storedFile.data], storedFile.fileName, {
+    type: storedFile.fileType,
+    lastModified: storedFile.lastModified,
+  });
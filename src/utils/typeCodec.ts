@@ -0,0 +1,150 @@
+import type { TypeCodec } from "../types/typeCodecType";
+import { fromBase64, toBase64 } from "./base64";
+
+// 类型标记：{ __fp_type: 类型名称, value: 编码后的值 }
+const TYPE_KEY = "__fp_type";
+const VALUE_KEY = "value";
+// 本身带有类型标记键的普通对象需要转义，避免恢复时被误识别
+const ESCAPED_OBJECT_TYPE = "Object";
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Uint8ClampedArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor;
+
+const TYPED_ARRAY_CONSTRUCTORS: TypedArrayConstructor[] = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+];
+
+// 类型化数组按字节以Base64编码
+const createTypedArrayCodec = (Ctor: TypedArrayConstructor): TypeCodec => ({
+  name: Ctor.name,
+  test: (value) => value instanceof Ctor,
+  encode: (value: ArrayBufferView) =>
+    toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)),
+  decode: (data: string) => new Ctor(fromBase64(data).buffer),
+});
+
+// 内置编解码器：Date、BigInt、Map、Set、ArrayBuffer与类型化数组
+export const BUILTIN_TYPE_CODECS: TypeCodec[] = [
+  {
+    name: "Date",
+    test: (value) => value instanceof Date,
+    // 无效日期编码为null
+    encode: (value: Date) =>
+      Number.isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: (data: string | null) => new Date(data ?? NaN),
+  },
+  {
+    name: "BigInt",
+    test: (value) => typeof value === "bigint",
+    encode: (value: bigint) => value.toString(),
+    decode: (data: string) => BigInt(data),
+  },
+  {
+    name: "Map",
+    test: (value) => value instanceof Map,
+    encode: (value: Map<unknown, unknown>) => Array.from(value.entries()),
+    decode: (data: [unknown, unknown][]) => new Map(data),
+  },
+  {
+    name: "Set",
+    test: (value) => value instanceof Set,
+    encode: (value: Set<unknown>) => Array.from(value),
+    decode: (data: unknown[]) => new Set(data),
+  },
+  {
+    name: "ArrayBuffer",
+    test: (value) => value instanceof ArrayBuffer,
+    encode: (value: ArrayBuffer) => toBase64(new Uint8Array(value)),
+    decode: (data: string) => fromBase64(data).buffer,
+  },
+  ...TYPED_ARRAY_CONSTRUCTORS.map(createTypedArrayCodec),
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null && typeof value === "object";
+
+const mapEntries = (
+  value: Record<string, any>,
+  fn: (item: unknown) => unknown
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, fn(item)])
+  );
+
+// 编码：按顺序匹配编解码器，将特殊类型替换为类型标记，其余值递归处理
+export const encodeTypedValue = (
+  value: unknown,
+  codecs: TypeCodec[]
+): unknown => {
+  const encode = (item: unknown) => encodeTypedValue(item, codecs);
+
+  const codec = codecs.find((item) => item.test(value));
+  if (codec) {
+    return { [TYPE_KEY]: codec.name, [VALUE_KEY]: encode(codec.encode(value)) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (isObject(value)) {
+    const encoded = mapEntries(value, encode);
+    return TYPE_KEY in value
+      ? { [TYPE_KEY]: ESCAPED_OBJECT_TYPE, [VALUE_KEY]: encoded }
+      : encoded;
+  }
+  return value;
+};
+
+// 判断是否为类型标记
+const isTypeTag = (
+  value: Record<string, any>
+): value is { [TYPE_KEY]: string; [VALUE_KEY]: unknown } =>
+  typeof value[TYPE_KEY] === "string" &&
+  VALUE_KEY in value &&
+  Object.keys(value).length === 2;
+
+// 解码：还原类型标记，未注册的类型保持原样
+export const decodeTypedValue = (
+  value: unknown,
+  codecs: TypeCodec[]
+): unknown => {
+  const decode = (item: unknown) => decodeTypedValue(item, codecs);
+
+  if (Array.isArray(value)) {
+    return value.map(decode);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (isTypeTag(value)) {
+    const type = value[TYPE_KEY];
+    const data = value[VALUE_KEY];
+    if (type === ESCAPED_OBJECT_TYPE && isObject(data)) {
+      return mapEntries(data, decode);
+    }
+    const codec = codecs.find((item) => item.name === type);
+    if (codec) {
+      return codec.decode(decode(data));
+    }
+  }
+  return mapEntries(value, decode);
+};
@@ -1,28 +1,50 @@
 import { defineConfig } from "vite";
 import vue from "@vitejs/plugin-vue";
 import path from "path";
-// https://vite.dev/config/
-export default defineConfig({
-  plugins: [vue()],
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "src"), // 配置 @ 指向 src
-    },
+
+// 库入口：默认构建Vue入口，--mode react构建React入口（UMD格式只支持单入口，需分别构建）
+const libraries = {
+  production: {
+    entry: "src/main.ts",
+    name: "FormPersistence",
+    fileName: "form-persistence",
   },
-  build: {
-    lib: {
-      entry: path.resolve(__dirname, "src/main.ts"),
-      name: "FormPersistence",
-      formats: ["es", "umd"],
-      fileName: (format) => `form-persistence.${format === 'es' ? 'js' : 'umd.cjs'}`,
+  react: {
+    entry: "src/react.ts",
+    name: "FormPersistenceReact",
+    fileName: "react",
+  },
+};
+
+// https://vite.dev/config/
+export default defineConfig(({ mode }) => {
+  const library = mode === "react" ? libraries.react : libraries.production;
+
+  return {
+    plugins: [vue()],
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "src"), // 配置 @ 指向 src
+      },
     },
-    rollupOptions: {
-      external: ["vue"],
-      output: {
-        globals: {
-          vue: "Vue",
+    build: {
+      // React入口在Vue入口之后构建，不清空输出目录
+      emptyOutDir: mode !== "react",
+      lib: {
+        entry: path.resolve(__dirname, library.entry),
+        name: library.name,
+        formats: ["es", "umd"],
+        fileName: (format) => `${library.fileName}.${format === 'es' ? 'js' : 'umd.cjs'}`,
+      },
+      rollupOptions: {
+        external: ["vue", "react"],
+        output: {
+          globals: {
+            vue: "Vue",
+            react: "React",
+          },
         },
       },
     },
-  },
+  };
 });